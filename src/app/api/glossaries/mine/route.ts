@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { FeedFormatError, type TranslatableItem } from "@/lib/feed-adapter";
+import { detectFeedAdapter } from "@/lib/feed-formats";
+import { getGlossary } from "@/lib/industries";
+import { resolveIndustry } from "@/lib/profile-store";
+import { getUserGlossary } from "@/lib/user-glossaries";
+import { mineGlossaryTerms, TERM_FIELDS } from "@/lib/term-mining";
+import { XmlParseError } from "@/lib/xml-tokenizer";
+
+export const maxDuration = 60;
+
+function errorResponse(message: string, status = 400): Response {
+  return Response.json({ error: message }, { status });
+}
+
+/**
+ * POST multipart { sourceFile, translatedFile, industry, sourceLang, targetLang, minOccurrences? }
+ * Proposes glossary entries from a feed and its human translation. Terms
+ * already in the industry's or the user's glossary are left out.
+ */
+export async function POST(req: NextRequest) {
+  const formData = await req.formData();
+  const sourceFile = formData.get("sourceFile") as File | null;
+  const translatedFile = formData.get("translatedFile") as File | null;
+  const industryId = formData.get("industry") as string | null;
+  const sourceLang = formData.get("sourceLang") as string | null;
+  const targetLang = formData.get("targetLang") as string | null;
+  const minOccurrences = Number(formData.get("minOccurrences")) || undefined;
+
+  if (!sourceFile || !translatedFile || !industryId || !sourceLang || !targetLang) {
+    return errorResponse("sourceFile, translatedFile, industry, sourceLang and targetLang are required");
+  }
+
+  const industry = await resolveIndustry(industryId);
+  if (!industry) return errorResponse("Unknown industry");
+
+  const fields = new Set(TERM_FIELDS);
+  const extract = async (file: File) => {
+    const content = await file.text();
+    const adapter = detectFeedAdapter(content);
+    if (!adapter) throw new FeedFormatError("unrecognized feed format");
+    return adapter.extract(content, sourceLang, fields, { detectLanguage: false });
+  };
+
+  let label = "source";
+  let sourceItems: TranslatableItem[];
+  let translatedItems: TranslatableItem[];
+  try {
+    sourceItems = await extract(sourceFile);
+    label = "translated";
+    translatedItems = await extract(translatedFile);
+  } catch (err) {
+    if (err instanceof XmlParseError || err instanceof FeedFormatError) {
+      return errorResponse(`Invalid ${label} feed: ${err.message}`);
+    }
+    throw err;
+  }
+
+  const known = {
+    ...getGlossary(industry, sourceLang, targetLang),
+    ...(await getUserGlossary(industryId, sourceLang, targetLang)),
+  };
+  const candidates = mineGlossaryTerms(sourceItems, translatedItems, {
+    minOccurrences,
+    exclude: new Set(Object.keys(known)),
+  });
+
+  return Response.json({ candidates });
+}
@@ -0,0 +1,137 @@
+import { NextRequest } from "next/server";
+import { getGlossary } from "@/lib/industries";
+import { resolveIndustry } from "@/lib/profile-store";
+import { getUserGlossary, saveUserGlossary } from "@/lib/user-glossaries";
+import {
+  detectGlossaryFormat,
+  glossaryToCsv,
+  glossaryToTbx,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+} from "@/lib/glossary-formats";
+import { XmlParseError } from "@/lib/xml-tokenizer";
+
+interface GlossaryScope {
+  industryId: string;
+  sourceLang: string;
+  targetLang: string;
+}
+
+function errorResponse(message: string, status = 400): Response {
+  return Response.json({ error: message }, { status });
+}
+
+/** Returns an error message if the scope is incomplete or unknown */
+async function checkScope({
+  industryId,
+  sourceLang,
+  targetLang,
+}: Partial<GlossaryScope>): Promise<string | null> {
+  if (!industryId || !sourceLang || !targetLang) {
+    return "industry, sourceLang and targetLang are required";
+  }
+  if (!(await resolveIndustry(industryId))) return "Unknown industry";
+  return null;
+}
+
+/**
+ * GET ?industry=&sourceLang=&targetLang=[&format=csv|tbx]
+ * Returns the user's terms and the built-in count as JSON, or the user's
+ * terms as a CSV/TBX download.
+ */
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const scope = {
+    industryId: params.get("industry") ?? undefined,
+    sourceLang: params.get("sourceLang") ?? undefined,
+    targetLang: params.get("targetLang") ?? undefined,
+  };
+  const problem = await checkScope(scope);
+  if (problem) return errorResponse(problem);
+
+  const { industryId, sourceLang, targetLang } = scope as GlossaryScope;
+  const terms = await getUserGlossary(industryId, sourceLang, targetLang);
+  const format = params.get("format");
+
+  if (format === "csv" || format === "tbx") {
+    const body =
+      format === "csv"
+        ? glossaryToCsv(terms, sourceLang, targetLang)
+        : glossaryToTbx(terms, sourceLang, targetLang);
+    return new Response(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-tbx+xml; charset=utf-8",
+        "Content-Disposition": `attachment; filename="glossary_${industryId}_${sourceLang}-${targetLang}.${format}"`,
+      },
+    });
+  }
+
+  return Response.json({
+    terms,
+    builtInCount: Object.keys(getGlossary((await resolveIndustry(industryId))!, sourceLang, targetLang))
+      .length,
+  });
+}
+
+/**
+ * PUT { industry, sourceLang, targetLang, terms }
+ * Replaces the user's glossary for the language pair.
+ */
+export async function PUT(req: NextRequest) {
+  const body = (await req.json()) as {
+    industry?: string;
+    sourceLang?: string;
+    targetLang?: string;
+    terms?: Record<string, string>;
+  };
+  const scope = { industryId: body.industry, sourceLang: body.sourceLang, targetLang: body.targetLang };
+  const problem = await checkScope(scope);
+  if (problem) return errorResponse(problem);
+  if (!body.terms || typeof body.terms !== "object") return errorResponse("terms are required");
+  if (Array.isArray(body.terms) || Object.values(body.terms).some((t) => typeof t !== "string")) {
+    return errorResponse("terms must map source terms to target strings");
+  }
+
+  const { industryId, sourceLang, targetLang } = scope as GlossaryScope;
+  const terms = await saveUserGlossary(industryId, sourceLang, targetLang, body.terms);
+  return Response.json({ terms });
+}
+
+/**
+ * POST multipart { file, industry, sourceLang, targetLang, mode: merge|replace }
+ * Imports a CSV or TBX file into the user's glossary.
+ */
+export async function POST(req: NextRequest) {
+  const formData = await req.formData();
+  const file = formData.get("file") as File | null;
+  const scope = {
+    industryId: (formData.get("industry") as string | null) ?? undefined,
+    sourceLang: (formData.get("sourceLang") as string | null) ?? undefined,
+    targetLang: (formData.get("targetLang") as string | null) ?? undefined,
+  };
+  const problem = await checkScope(scope);
+  if (problem) return errorResponse(problem);
+  if (!file) return errorResponse("file is required");
+
+  const { industryId, sourceLang, targetLang } = scope as GlossaryScope;
+  const content = await file.text();
+
+  let imported: Record<string, string>;
+  try {
+    imported =
+      detectGlossaryFormat(file.name, content) === "tbx"
+        ? parseGlossaryTbx(content, sourceLang, targetLang)
+        : parseGlossaryCsv(content, sourceLang, targetLang);
+  } catch (err) {
+    if (err instanceof XmlParseError) {
+      return errorResponse(`Invalid TBX file: ${err.message}`);
+    }
+    throw err;
+  }
+
+  const existing =
+    formData.get("mode") === "replace" ? {} : await getUserGlossary(industryId, sourceLang, targetLang);
+  const terms = await saveUserGlossary(industryId, sourceLang, targetLang, { ...existing, ...imported });
+
+  return Response.json({ terms, importedCount: Object.keys(imported).length });
+}
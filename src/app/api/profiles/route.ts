@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { isProfileId, type IndustryProfileInput } from "@/lib/industry-profiles";
+import { deleteProfile, getProfile, listProfiles, saveProfile } from "@/lib/profile-store";
+
+function errorResponse(message: string, status = 400): Response {
+  return Response.json({ error: message }, { status });
+}
+
+function isGlossaryMap(value: unknown): value is Record<string, Record<string, string>> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.values(value).every(
+      (terms) =>
+        typeof terms === "object" &&
+        terms !== null &&
+        Object.values(terms).every((target) => typeof target === "string")
+    )
+  );
+}
+
+/**
+ * GET - lists the saved custom industry profiles.
+ */
+export async function GET() {
+  return Response.json({ profiles: await listProfiles() });
+}
+
+/**
+ * PUT { id?, name, context, description?, tone?, spellingVariant?, glossaries?, brandNames? }
+ * Creates a profile, or updates the one named by `id`.
+ */
+export async function PUT(req: NextRequest) {
+  const body = (await req.json()) as Partial<IndustryProfileInput>;
+
+  if (!body.name?.trim() || !body.context?.trim()) {
+    return errorResponse("name and context are required");
+  }
+  if (body.id !== undefined && !isProfileId(body.id)) {
+    return errorResponse("Built-in industries cannot be changed");
+  }
+  if (body.glossaries !== undefined && !isGlossaryMap(body.glossaries)) {
+    return errorResponse('glossaries must map language pairs (e.g. "bg-en") to term mappings');
+  }
+
+  if (
+    body.brandNames !== undefined &&
+    !(Array.isArray(body.brandNames) && body.brandNames.every((b) => typeof b === "string"))
+  ) {
+    return errorResponse("brandNames must be an array of strings");
+  }
+
+  if (body.id !== undefined && !(await getProfile(body.id))) {
+    return errorResponse("Unknown profile", 404);
+  }
+
+  const profile = await saveProfile(body as IndustryProfileInput);
+  return Response.json({ profile });
+}
+
+/**
+ * DELETE ?id=
+ */
+export async function DELETE(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get("id");
+  if (!id) return errorResponse("id is required");
+  if (!(await deleteProfile(id))) return errorResponse("Unknown profile", 404);
+  return Response.json({ deleted: id });
+}
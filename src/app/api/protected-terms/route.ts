@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+import { resolveIndustry } from "@/lib/profile-store";
+import { getProtectedTerms, saveProtectedTerms } from "@/lib/protected-terms";
+
+function errorResponse(message: string, status = 400): Response {
+  return Response.json({ error: message }, { status });
+}
+
+/** Returns an error message if the industry is missing or unknown */
+async function checkIndustry(industryId: string | undefined): Promise<string | null> {
+  if (!industryId) return "industry is required";
+  if (!(await resolveIndustry(industryId))) return "Unknown industry";
+  return null;
+}
+
+/**
+ * GET ?industry=
+ * Returns the industry's do-not-translate terms.
+ */
+export async function GET(req: NextRequest) {
+  const industryId = req.nextUrl.searchParams.get("industry") ?? undefined;
+  const problem = await checkIndustry(industryId);
+  if (problem) return errorResponse(problem);
+
+  return Response.json({ terms: await getProtectedTerms(industryId!) });
+}
+
+/**
+ * PUT { industry, terms }
+ * Replaces the industry's do-not-translate terms.
+ */
+export async function PUT(req: NextRequest) {
+  const body = (await req.json()) as { industry?: string; terms?: unknown };
+  const problem = await checkIndustry(body.industry);
+  if (problem) return errorResponse(problem);
+  if (!Array.isArray(body.terms) || !body.terms.every((t) => typeof t === "string")) {
+    return errorResponse("terms must be an array of strings");
+  }
+
+  const terms = await saveProtectedTerms(body.industry!, body.terms);
+  return Response.json({ terms });
+}
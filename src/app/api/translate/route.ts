@@ -1,12 +1,20 @@
 import { NextRequest } from "next/server";
 import {
-  extractTranslatables,
   deduplicateItems,
-  applyTranslations,
+  FeedFormatError,
+  type SkippedItem,
   type TranslatableField,
-} from "@/lib/cloudcart-parser";
+} from "@/lib/feed-adapter";
+import { detectFeedAdapter } from "@/lib/feed-formats";
+import { jsonMappingProblems, type JsonFeedMapping } from "@/lib/json-feed-parser";
 import { translateTexts } from "@/lib/translator";
-import { getIndustry } from "@/lib/industries";
+import { XmlParseError } from "@/lib/xml-tokenizer";
+import { loadTranslationMemory } from "@/lib/translation-memory";
+import { getUserGlossary } from "@/lib/user-glossaries";
+import { getProtectedTerms } from "@/lib/protected-terms";
+import { resolveIndustry } from "@/lib/profile-store";
+import { checkOutputFeed } from "@/lib/structure-check";
+import { diffFeeds, reusePreviousTranslations } from "@/lib/incremental";
 
 export const maxDuration = 300; // 5 min timeout for large feeds
 
@@ -26,12 +34,28 @@ export async function POST(req: NextRequest) {
         const file = formData.get("file") as File | null;
         const industryId = formData.get("industry") as string;
         const sourceLang = formData.get("sourceLang") as string;
-        const targetLang = formData.get("targetLang") as string;
+        // One or more target languages; the feed is parsed once for all of them
+        const targetLangs = [...new Set(formData.getAll("targetLang") as string[])].filter(Boolean);
         const apiKey = formData.get("apiKey") as string;
         const customContext = formData.get("customContext") as string | null;
         const fieldsJson = formData.get("fields") as string | null;
+        // For JSON feeds: which paths of a product hold which fields
+        const jsonMappingJson = formData.get("jsonMapping") as string | null;
+        // Retry mode: translate only these item paths (the failures of an
+        // earlier run), with `file` being that run's partially translated output
+        const onlyPathsJson = formData.get("onlyPaths") as string | null;
+        // Incremental mode: the previous run's source feed and its translation
+        // per language ("previousTranslatedFile.<lang>"; the bare field name
+        // is accepted when there is a single target language)
+        const previousFile = formData.get("previousFile") as File | null;
+        const previousTranslatedFiles = new Map<string, File>();
+        for (const lang of targetLangs) {
+          const translated = (formData.get(`previousTranslatedFile.${lang}`) ??
+            (targetLangs.length === 1 ? formData.get("previousTranslatedFile") : null)) as File | null;
+          if (translated) previousTranslatedFiles.set(lang, translated);
+        }
 
-        if (!file || !industryId || !sourceLang || !targetLang || !apiKey) {
+        if (!file || !industryId || !sourceLang || targetLangs.length === 0 || !apiKey) {
           sendEvent({
             type: "error",
             message: "Missing required fields",
@@ -40,25 +64,58 @@ export async function POST(req: NextRequest) {
           return;
         }
 
-        const industry = getIndustry(industryId);
+        if (!previousFile !== (previousTranslatedFiles.size === 0)) {
+          sendEvent({
+            type: "error",
+            message:
+              "Incremental mode needs both the previous source feed and its translated output",
+          });
+          controller.close();
+          return;
+        }
+
+        // A per-request copy: built-in industry, saved profile, or the
+        // one-off custom context
+        const industry = await resolveIndustry(industryId);
         if (!industry) {
           sendEvent({ type: "error", message: "Unknown industry" });
           controller.close();
           return;
         }
 
-        // Apply custom context if provided
         if (customContext && industryId === "custom") {
           industry.context = customContext;
         }
 
-        sendEvent({ type: "status", message: "Reading XML feed..." });
+        sendEvent({ type: "status", message: "Reading feed..." });
 
-        const xmlContent = await file.text();
+        const jsonMapping = jsonMappingJson
+          ? (JSON.parse(jsonMappingJson) as JsonFeedMapping)
+          : undefined;
+        const mappingProblems = jsonMapping ? jsonMappingProblems(jsonMapping) : [];
+        if (mappingProblems.length > 0) {
+          sendEvent({
+            type: "error",
+            message: `Invalid JSON mapping: ${mappingProblems.join("; ")}`,
+          });
+          controller.close();
+          return;
+        }
+
+        const feedContent = await file.text();
+        const adapter = detectFeedAdapter(feedContent, jsonMapping);
+        if (!adapter) {
+          sendEvent({
+            type: "error",
+            message: "Unrecognized feed format: expected an XML or JSON feed or a Shopify product CSV",
+          });
+          controller.close();
+          return;
+        }
 
         sendEvent({
           type: "status",
-          message: "Parsing feed structure...",
+          message: `Parsing ${adapter.name} feed structure...`,
         });
 
         // Parse selected fields
@@ -66,8 +123,19 @@ export async function POST(req: NextRequest) {
           ? new Set(JSON.parse(fieldsJson) as TranslatableField[])
           : undefined;
 
-        // Extract translatable items
-        const items = extractTranslatables(xmlContent, sourceLang, selectedFields);
+        // Extract translatable items; values that are only do-not-translate
+        // terms stay as they are, values in another language are reported
+        const protectedTerms = await getProtectedTerms(industryId);
+        const onlyPaths = onlyPathsJson ? new Set(JSON.parse(onlyPathsJson) as string[]) : null;
+        const skippedItems: SkippedItem[] = [];
+        const items = adapter.extract(feedContent, sourceLang, selectedFields, {
+          protectedTerms,
+          onSkip: (item) => skippedItems.push(item),
+        }).filter((item) => !onlyPaths || onlyPaths.has(item.path));
+
+        if (!onlyPaths && skippedItems.length > 0) {
+          sendEvent({ type: "skipped", items: skippedItems });
+        }
 
         if (items.length === 0) {
           sendEvent({
@@ -94,38 +162,189 @@ export async function POST(req: NextRequest) {
           message: `Found ${unique.length} unique texts to translate (${items.length} total occurrences across ${new Set(items.map((i) => i.productId)).size} products)...`,
         });
 
-        // Translate
-        const translations = await translateTexts(
-          unique,
-          sourceLang,
-          targetLang,
-          industry,
-          apiKey,
-          (completed, total) => {
+        // Partly translated values: only their source-language sentences are sent
+        const mixedCount = unique.filter((u) => u.sourceSegments).length;
+        if (mixedCount > 0) {
+          sendEvent({
+            type: "status",
+            message: `${mixedCount} texts are partly translated already; only their untranslated sentences will be sent...`,
+          });
+        }
+
+        const previousItems = previousFile
+          ? adapter.extract(await previousFile.text(), sourceLang, selectedFields, {
+              protectedTerms,
+            })
+          : null;
+
+        if (previousItems) {
+          const changes = diffFeeds(previousItems, items);
+          sendEvent({ type: "changes", ...changes });
+          sendEvent({
+            type: "status",
+            message: `Since the previous feed: ${changes.added.length} added, ${changes.changed.length} changed, ${changes.removed.length} removed products`,
+          });
+        }
+
+        // The custom industry's context changes per request, so its
+        // translations are not reusable across runs
+        const memory = industryId === "custom" ? undefined : await loadTranslationMemory();
+
+        for (const targetLang of targetLangs) {
+          const languageNote = targetLangs.length > 1 ? ` (${targetLang})` : "";
+
+          // Reuse the previous run's translations for unchanged values
+          let reused = new Map<string, string>();
+          const previousTranslatedFile = previousTranslatedFiles.get(targetLang);
+          if (previousItems && previousTranslatedFile) {
+            const previousTranslatedItems = adapter.extract(
+              await previousTranslatedFile.text(),
+              sourceLang,
+              selectedFields,
+              { detectLanguage: false }
+            );
+            reused = reusePreviousTranslations(items, previousItems, previousTranslatedItems);
+            sendEvent({ type: "stats", targetLang, reusedItems: reused.size });
+          }
+
+          sendEvent({
+            type: "status",
+            targetLang,
+            message: `Translating${languageNote}...`,
+          });
+
+          // User terms for this language pair override the built-in glossary
+          const userGlossary = await getUserGlossary(industryId, sourceLang, targetLang);
+
+          // Translate
+          const { translations, sources, memoryHits, memoryMisses, failed, glossaryWarnings } =
+            await translateTexts(
+              unique.filter((u) => !reused.has(u.text)),
+              sourceLang,
+              targetLang,
+              industry,
+              apiKey,
+              (completed, total) => {
+                sendEvent({
+                  type: "progress",
+                  targetLang,
+                  completed,
+                  total,
+                  percent: total ? Math.round((completed / total) * 100) : 100,
+                });
+              },
+              { memory, glossary: userGlossary, protectedTerms }
+            );
+
+          // A disk that cannot be written (e.g. a read-only deployment) must
+          // not cost the translations already paid for
+          let memoryNote = "";
+          try {
+            await memory?.save();
+          } catch (err) {
             sendEvent({
-              type: "progress",
-              completed,
-              total,
-              percent: Math.round((completed / total) * 100),
+              type: "status",
+              targetLang,
+              message: `Warning: the translation memory could not be saved${languageNote} (${
+                err instanceof Error ? err.message : "unknown error"
+              }); these translations will not be reused next time...`,
             });
+            memoryNote = " The translation memory could not be saved.";
           }
-        );
 
-        sendEvent({
-          type: "status",
-          message: "Applying translations to feed...",
-        });
+          for (const [original, translated] of reused) {
+            translations.set(original, translated);
+          }
 
-        // Apply translations to XML
-        const translatedXml = applyTranslations(xmlContent, translations);
+          sendEvent({
+            type: "stats",
+            targetLang,
+            memoryHits,
+            memoryMisses,
+          });
 
-        sendEvent({
-          type: "complete",
-          translatedXml,
-          translationCount: translations.size,
-          message: `Successfully translated ${translations.size} unique texts.`,
-        });
+          sendEvent({
+            type: "status",
+            targetLang,
+            message: `Applying translations to feed${languageNote}...`,
+          });
+
+          // Apply translations to the feed; failed texts stay in the source language
+          const translatedFeed = adapter.applyTranslations(feedContent, items, translations);
+          // The output must still be valid and keep every product
+          const outputProblems = checkOutputFeed(adapter, feedContent, translatedFeed);
+
+          const errors = new Map(failed.map((f) => [f.text, f.error]));
+          const failedItems = items
+            .filter((item) => errors.has(item.text))
+            .map(({ path, productId, productTitle, field, text }) => ({
+              path,
+              productId,
+              productTitle,
+              field,
+              text,
+              error: errors.get(text),
+            }));
+
+          const missingTerms = new Map(glossaryWarnings.map((w) => [w.text, w.missingTerms]));
+          const glossaryWarningItems = items
+            .filter((item) => missingTerms.has(item.text))
+            .map(({ path, productId, productTitle, field, text }) => ({
+              path,
+              productId,
+              productTitle,
+              field,
+              text,
+              translation: translations.get(text),
+              missingTerms: missingTerms.get(text),
+            }));
+
+          // Every item with its translation and where it came from, for the
+          // review screen and the QA report
+          const reviewItems = items.map(({ path, productId, productTitle, field, text }) => ({
+            path,
+            productId,
+            productTitle,
+            field,
+            text,
+            translation: translations.get(text) ?? null,
+            source: sources.get(text) ?? (reused.has(text) ? ("previous" as const) : null),
+          }));
+
+          sendEvent({
+            type: "complete",
+            targetLang,
+            translatedFeed,
+            translationCount: translations.size,
+            failedItems,
+            glossaryWarnings: glossaryWarningItems,
+            items: reviewItems,
+            outputProblems,
+            message:
+              (outputProblems.length > 0
+                ? `The translated feed${languageNote} failed validation: ${outputProblems.join("; ")}.`
+                : failed.length > 0
+                ? `Translated ${translations.size} unique texts${languageNote}; ${failed.length} could not be translated and were left unchanged.`
+                : `Successfully translated ${translations.size} unique texts${languageNote}.`) +
+              memoryNote,
+          });
+        }
+
+        sendEvent({ type: "done", targetLangs });
       } catch (err) {
+        if (err instanceof XmlParseError) {
+          sendEvent({
+            type: "error",
+            message: `Invalid XML feed: ${err.message}`,
+            line: err.line,
+            column: err.column,
+          });
+          return;
+        }
+        if (err instanceof FeedFormatError) {
+          sendEvent({ type: "error", message: `Invalid feed: ${err.message}` });
+          return;
+        }
         sendEvent({
           type: "error",
           message: `Translation failed: ${err instanceof Error ? err.message : "Unknown error"}`,
@@ -1,8 +1,32 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
-import { industries } from "@/lib/industries";
-import { TRANSLATABLE_FIELDS, type TranslatableField } from "@/lib/cloudcart-parser";
+import { useState, useRef, useCallback, useEffect } from "react";
+import { industries, getExampleTerms } from "@/lib/industries";
+import {
+  defaultFields,
+  FeedFormatError,
+  type FeedAdapter,
+  type SkippedItem,
+  type TranslatableField,
+} from "@/lib/feed-adapter";
+import { cloudcartAdapter } from "@/lib/cloudcart-parser";
+import { detectFeedAdapter, fieldLabel } from "@/lib/feed-formats";
+import {
+  createJsonAdapter,
+  DEFAULT_JSON_MAPPING,
+  type JsonFeedMapping,
+} from "@/lib/json-feed-parser";
+import { profileToIndustry, type IndustryProfile } from "@/lib/industry-profiles";
+import GlossaryPanel from "@/components/GlossaryPanel";
+import ProtectedTermsPanel from "@/components/ProtectedTermsPanel";
+import ProfileEditor from "@/components/ProfileEditor";
+import { buildReportRows, reportToCsv, reportToHtml } from "@/lib/report";
+import ReviewPanel, { type ReviewItem } from "@/components/ReviewPanel";
+import JsonMappingEditor from "@/components/JsonMappingEditor";
+import XliffPanel, { type XliffImportResult } from "@/components/XliffPanel";
+import { checkOutputFeed } from "@/lib/structure-check";
+import { exportXliff, importXliff, type XliffVersion } from "@/lib/xliff";
+import { XmlParseError } from "@/lib/xml-tokenizer";
 
 type Status = "idle" | "uploading" | "translating" | "complete" | "error";
 
@@ -12,6 +36,49 @@ interface Stats {
   uniqueItems: number;
 }
 
+/** Progress and output for one target language */
+interface LanguageResult {
+  progress: { completed: number; total: number; percent: number };
+  reusedItems?: number;
+  memoryHits?: number;
+  memoryMisses?: number;
+  translatedFeed?: string;
+  translationCount?: number;
+  /** Items left untranslated because their batch failed */
+  failedItems?: FailedItem[];
+  /** Translated items that do not use a required glossary term */
+  glossaryWarnings?: GlossaryWarningItem[];
+  /** Every item with its translation, for review and editing */
+  items?: ReviewItem[];
+  /** Why the translated feed failed validation; it is not offered for download then */
+  outputProblems?: string[];
+}
+
+interface GlossaryWarningItem {
+  path: string;
+  productId: string;
+  field: string;
+  text: string;
+  translation: string;
+  missingTerms: string[];
+}
+
+interface FailedItem {
+  path: string;
+  productId: string;
+  productTitle: string;
+  field: string;
+  text: string;
+  error: string;
+}
+
+interface FeedChanges {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+}
+
 const LANGUAGES = [
   { code: "bg", name: "Bulgarian" },
   { code: "en", name: "English" },
@@ -37,145 +104,524 @@ const LANGUAGES = [
   { code: "ar", name: "Arabic" },
 ];
 
+/** Skipped values listed in the progress panel; the rest are counted */
+const MAX_SKIPPED_SHOWN = 200;
+
 export default function Home() {
   const [status, setStatus] = useState<Status>("idle");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [previousFile, setPreviousFile] = useState<File | null>(null);
+  const [previousTranslatedFiles, setPreviousTranslatedFiles] = useState<Record<string, File>>({});
+  const [changes, setChanges] = useState<FeedChanges | null>(null);
+  const [skippedItems, setSkippedItems] = useState<SkippedItem[]>([]);
   const [industryId, setIndustryId] = useState("");
   const [sourceLang, setSourceLang] = useState("bg");
-  const [targetLang, setTargetLang] = useState("en");
+  const [targetLangs, setTargetLangs] = useState<string[]>(["en"]);
   const [apiKey, setApiKey] = useState("");
   const [customContext, setCustomContext] = useState("");
+  const [profiles, setProfiles] = useState<IndustryProfile[]>([]);
   const [statusMessage, setStatusMessage] = useState("");
-  const [progress, setProgress] = useState({ completed: 0, total: 0, percent: 0 });
   const [stats, setStats] = useState<Stats | null>(null);
+  const [results, setResults] = useState<Record<string, LanguageResult>>({});
   const [errorMessage, setErrorMessage] = useState("");
-  const [translatedXml, setTranslatedXml] = useState<string | null>(null);
-  const [translationCount, setTranslationCount] = useState(0);
-  const [selectedFields, setSelectedFields] = useState<Set<TranslatableField>>(
-    () => new Set(TRANSLATABLE_FIELDS.filter((f) => f.defaultOn).map((f) => f.id))
+  // Detected from the selected file; decides the fields on offer
+  const [feedAdapter, setFeedAdapter] = useState<FeedAdapter>(cloudcartAdapter);
+  const [jsonMapping, setJsonMapping] = useState<JsonFeedMapping>(DEFAULT_JSON_MAPPING);
+  const [selectedFields, setSelectedFields] = useState<Set<TranslatableField>>(() =>
+    defaultFields(cloudcartAdapter.fields)
   );
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const selectedIndustry = industries.find((i) => i.id === industryId);
+  useEffect(() => {
+    fetch("/api/profiles")
+      .then((res) => res.json())
+      .then((data: { profiles?: IndustryProfile[] }) => setProfiles(data.profiles ?? []))
+      .catch(() => setProfiles([]));
+  }, []);
+
+  // Built-in industries followed by the saved custom profiles
+  const industryOptions = [...industries, ...profiles.map(profileToIndustry)];
+  const selectedIndustry = industryOptions.find((i) => i.id === industryId);
+  const selectedProfile = profiles.find((p) => p.id === industryId);
+  // Preview mappings of the selected industry for the chosen language pairs
+  const exampleTerms = selectedIndustry
+    ? targetLangs.flatMap((lang) =>
+        getExampleTerms(selectedIndustry, sourceLang, lang).map((term) => ({ lang, term }))
+      )
+    : [];
 
   const handleFileChange = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file) {
         setSelectedFile(file);
         setStatus("idle");
-        setTranslatedXml(null);
+        setResults({});
         setErrorMessage("");
         setStats(null);
+
+        // The format shows in the first few kilobytes (root namespaces, CSV header)
+        const head = await file.slice(0, 8192).text();
+        const adapter = detectFeedAdapter(head, jsonMapping);
+        if (!adapter) {
+          setErrorMessage(
+            "Unrecognized feed format: expected an XML or JSON feed or a Shopify product CSV"
+          );
+          setStatus("error");
+          return;
+        }
+        setFeedAdapter(adapter);
+        setSelectedFields(defaultFields(adapter.fields));
       }
     },
-    []
+    [jsonMapping]
   );
 
-  const handleTranslate = useCallback(async () => {
-    if (!selectedFile || !industryId || !apiKey) return;
-
-    setStatus("translating");
-    setErrorMessage("");
-    setTranslatedXml(null);
-    setProgress({ completed: 0, total: 0, percent: 0 });
-
-    const formData = new FormData();
-    formData.append("file", selectedFile);
-    formData.append("industry", industryId);
-    formData.append("sourceLang", sourceLang);
-    formData.append("targetLang", targetLang);
-    formData.append("apiKey", apiKey);
-    if (industryId === "custom" && customContext) {
-      formData.append("customContext", customContext);
-    }
-    formData.append("fields", JSON.stringify([...selectedFields]));
+  const handleApplyJsonMapping = useCallback((mapping: JsonFeedMapping) => {
+    const adapter = createJsonAdapter(mapping);
+    setJsonMapping(mapping);
+    setFeedAdapter(adapter);
+    setSelectedFields(defaultFields(adapter.fields));
+  }, []);
 
-    try {
-      const response = await fetch("/api/translate", {
-        method: "POST",
-        body: formData,
-      });
+  /**
+   * Posts a job to /api/translate and folds its event stream into state.
+   * Only the languages in `langs` are reset; other results are kept. A retry
+   * job adds to the language's existing counts instead of replacing them.
+   */
+  const runJob = useCallback(
+    async (formData: FormData, langs: string[], isRetry = false) => {
+      setStatus("translating");
+      setErrorMessage("");
+      setResults((prev) => ({
+        ...prev,
+        ...Object.fromEntries(
+          langs.map((lang) => [
+            lang,
+            { ...prev[lang], progress: { completed: 0, total: 0, percent: 0 } },
+          ])
+        ),
+      }));
+
+      const updateResult = (lang: string, update: (prev: LanguageResult) => Partial<LanguageResult>) =>
+        setResults((prev) => ({ ...prev, [lang]: { ...prev[lang], ...update(prev[lang]) } }));
+
+      try {
+        const response = await fetch("/api/translate", {
+          method: "POST",
+          body: formData,
+        });
 
-      if (!response.ok) throw new Error("Server error");
-      if (!response.body) throw new Error("No response stream");
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (!line.startsWith("data: ")) continue;
-          try {
-            const data = JSON.parse(line.slice(6));
-
-            switch (data.type) {
-              case "status":
-                setStatusMessage(data.message);
-                break;
-              case "stats":
-                setStats({
-                  totalProducts: data.totalProducts,
-                  totalItems: data.totalItems,
-                  uniqueItems: data.uniqueItems,
-                });
-                break;
-              case "progress":
-                setProgress({
-                  completed: data.completed,
-                  total: data.total,
-                  percent: data.percent,
-                });
-                break;
-              case "complete":
-                setTranslatedXml(data.translatedXml);
-                setTranslationCount(data.translationCount);
-                setStatus("complete");
-                setStatusMessage(data.message);
-                break;
-              case "error":
-                setErrorMessage(data.message);
-                setStatus("error");
-                break;
+        if (!response.ok) throw new Error("Server error");
+        if (!response.body) throw new Error("No response stream");
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n\n");
+          buffer = lines.pop() || "";
+
+          for (const line of lines) {
+            if (!line.startsWith("data: ")) continue;
+            try {
+              const data = JSON.parse(line.slice(6));
+
+              switch (data.type) {
+                case "status":
+                  setStatusMessage(data.message);
+                  break;
+                case "stats":
+                  // Feed totals come once; reuse and memory counts per language
+                  if (data.targetLang) {
+                    updateResult(data.targetLang, () => ({
+                      ...(data.reusedItems !== undefined && { reusedItems: data.reusedItems }),
+                      ...(data.memoryHits !== undefined && {
+                        memoryHits: data.memoryHits,
+                        memoryMisses: data.memoryMisses,
+                      }),
+                    }));
+                  } else if (!isRetry) {
+                    setStats({
+                      totalProducts: data.totalProducts,
+                      totalItems: data.totalItems,
+                      uniqueItems: data.uniqueItems,
+                    });
+                  }
+                  break;
+                case "changes":
+                  setChanges({
+                    added: data.added,
+                    changed: data.changed,
+                    removed: data.removed,
+                    unchanged: data.unchanged,
+                  });
+                  break;
+                case "skipped":
+                  setSkippedItems(data.items);
+                  break;
+                case "progress":
+                  updateResult(data.targetLang, () => ({
+                    progress: {
+                      completed: data.completed,
+                      total: data.total,
+                      percent: data.percent,
+                    },
+                  }));
+                  break;
+                case "complete":
+                  updateResult(data.targetLang, (prev) => ({
+                    translatedFeed: data.translatedFeed,
+                    outputProblems: data.outputProblems,
+                    translationCount:
+                      (isRetry ? (prev.translationCount ?? 0) : 0) + data.translationCount,
+                    failedItems: data.failedItems,
+                    glossaryWarnings: isRetry
+                      ? [
+                          ...(prev.glossaryWarnings ?? []).filter(
+                            (w: GlossaryWarningItem) =>
+                              !data.glossaryWarnings.some((n: GlossaryWarningItem) => n.path === w.path)
+                          ),
+                          ...data.glossaryWarnings,
+                        ]
+                      : data.glossaryWarnings,
+                    items: isRetry
+                      ? (prev.items ?? []).map(
+                          (item) =>
+                            data.items.find((n: ReviewItem) => n.path === item.path) ?? item
+                        )
+                      : data.items,
+                  }));
+                  setStatusMessage(data.message);
+                  break;
+                case "done":
+                  setStatus("complete");
+                  break;
+                case "error":
+                  setErrorMessage(data.message);
+                  setStatus("error");
+                  break;
+              }
+            } catch {
+              // skip malformed events
             }
-          } catch {
-            // skip malformed events
           }
         }
+      } catch (err) {
+        setErrorMessage(
+          err instanceof Error ? err.message : "Unknown error occurred"
+        );
+        setStatus("error");
+      }
+    },
+    []
+  );
+
+  /** Form fields shared by a full run and a retry of failed items */
+  const buildFormData = useCallback(
+    (file: Blob, langs: string[]) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("industry", industryId);
+      formData.append("sourceLang", sourceLang);
+      for (const lang of langs) formData.append("targetLang", lang);
+      formData.append("apiKey", apiKey);
+      if (industryId === "custom" && customContext) {
+        formData.append("customContext", customContext);
+      }
+      formData.append("fields", JSON.stringify([...selectedFields]));
+      if (feedAdapter.id === "json") formData.append("jsonMapping", JSON.stringify(jsonMapping));
+      return formData;
+    },
+    [industryId, sourceLang, apiKey, customContext, selectedFields, feedAdapter, jsonMapping]
+  );
+
+  const handleTranslate = useCallback(async () => {
+    if (!selectedFile || !industryId || !apiKey || targetLangs.length === 0) return;
+
+    setChanges(null);
+    setSkippedItems([]);
+    setResults({});
+
+    const formData = buildFormData(selectedFile, targetLangs);
+    if (previousFile) {
+      formData.append("previousFile", previousFile);
+      for (const lang of targetLangs) {
+        const translated = previousTranslatedFiles[lang];
+        if (translated) formData.append(`previousTranslatedFile.${lang}`, translated);
       }
-    } catch (err) {
-      setErrorMessage(
-        err instanceof Error ? err.message : "Unknown error occurred"
-      );
-      setStatus("error");
     }
-  }, [selectedFile, industryId, sourceLang, targetLang, apiKey, customContext]);
 
-  const handleDownload = useCallback(() => {
-    if (!translatedXml || !selectedFile) return;
+    await runJob(formData, targetLangs);
+  }, [
+    selectedFile,
+    industryId,
+    apiKey,
+    targetLangs,
+    previousFile,
+    previousTranslatedFiles,
+    buildFormData,
+    runJob,
+  ]);
 
-    const blob = new Blob([translatedXml], {
-      type: "application/xml;charset=utf-8",
-    });
+  /**
+   * Re-sends only the failed items of one language. The partially
+   * translated output is the input, so everything else stays as it is.
+   */
+  const handleRetryFailed = useCallback(
+    async (lang: string) => {
+      const result = results[lang];
+      if (!result?.translatedFeed || !result.failedItems?.length) return;
+
+      const partial = new Blob([result.translatedFeed], { type: feedAdapter.mimeType });
+      const formData = buildFormData(partial, [lang]);
+      formData.append("onlyPaths", JSON.stringify(result.failedItems.map((item) => item.path)));
+
+      await runJob(formData, [lang], true);
+    },
+    [results, feedAdapter, buildFormData, runJob]
+  );
+
+  /**
+   * Writes reviewed edits into one language's output. The items are
+   * re-extracted from the translated feed (paths are the same as in the
+   * source), so only the edited occurrences change. Edits that leave the
+   * feed invalid (e.g. a stray "<" in HTML) are rejected and the previous
+   * feed is kept.
+   */
+  const handleApplyEdits = useCallback(
+    (lang: string, edits: Record<string, string>): string | null => {
+      const result = results[lang];
+      if (!result?.translatedFeed) return "There is no translated feed to edit";
+
+      const items = feedAdapter.extract(
+        result.translatedFeed,
+        sourceLang,
+        new Set(feedAdapter.fields.map((f) => f.id)),
+        { detectLanguage: false }
+      );
+      const translatedFeed = feedAdapter.applyItemTranslations(
+        result.translatedFeed,
+        items,
+        new Map(Object.entries(edits))
+      );
+      const problems = checkOutputFeed(feedAdapter, result.translatedFeed, translatedFeed);
+      if (problems.length > 0) {
+        return `The edits were not applied: ${problems.join("; ")}`;
+      }
+
+      setResults((prev) => ({
+        ...prev,
+        [lang]: {
+          ...prev[lang],
+          translatedFeed,
+          items: prev[lang].items?.map((item) =>
+            item.path in edits
+              ? { ...item, translation: edits[item.path], source: "edited" as const }
+              : item
+          ),
+        },
+      }));
+      return null;
+    },
+    [results, sourceLang, feedAdapter]
+  );
+
+  const downloadFile = (content: string, type: string, fileName: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    const baseName = selectedFile.name.replace(/\.xml$/i, "");
-    a.download = `${baseName}-${targetLang}.xml`;
+    a.download = fileName;
     a.click();
     URL.revokeObjectURL(url);
-  }, [translatedXml, selectedFile, targetLang]);
+  };
+
+  const handleDownload = useCallback((lang: string) => {
+    const translatedFeed = results[lang]?.translatedFeed;
+    if (!translatedFeed || !selectedFile) return;
+
+    // Keep the uploaded file's extension (e.g. .jsonl)
+    const extension = /\.[^.]+$/.exec(selectedFile.name)?.[0] ?? `.${feedAdapter.fileExtension}`;
+    const baseName = selectedFile.name.slice(0, selectedFile.name.length - extension.length);
+    downloadFile(
+      translatedFeed,
+      `${feedAdapter.mimeType};charset=utf-8`,
+      `${baseName}-${lang}${extension}`
+    );
+  }, [results, selectedFile, feedAdapter]);
+
+  /**
+   * Downloads the QA report of one language. It is built from the review
+   * items, so manual edits and retried items are included.
+   */
+  const handleDownloadReport = useCallback(
+    (lang: string, format: "csv" | "html") => {
+      const items = results[lang]?.items;
+      if (!items || !selectedFile) return;
+
+      const rows = buildReportRows(items);
+      const baseName = selectedFile.name.replace(/\.[^.]+$/, "");
+      if (format === "csv") {
+        downloadFile(reportToCsv(rows), "text/csv;charset=utf-8", `${baseName}-${lang}-report.csv`);
+      } else {
+        const html = reportToHtml(rows, {
+          fileName: selectedFile.name,
+          sourceLang,
+          targetLang: lang,
+          industry: selectedIndustry?.name ?? industryId,
+        });
+        downloadFile(html, "text/html;charset=utf-8", `${baseName}-${lang}-report.html`);
+      }
+    },
+    [results, selectedFile, sourceLang, selectedIndustry, industryId]
+  );
+
+  /**
+   * Extracts the selected fields of the uploaded feed the way a translation
+   * run does, skipping values that are only do-not-translate terms.
+   */
+  const extractSourceItems = useCallback(async () => {
+    if (!selectedFile) return [];
+    let protectedTerms: string[] = [];
+    if (industryId) {
+      const res = await fetch(`/api/protected-terms?${new URLSearchParams({ industry: industryId })}`);
+      if (res.ok) protectedTerms = (await res.json()).terms ?? [];
+    }
+    return feedAdapter.extract(await selectedFile.text(), sourceLang, selectedFields, {
+      protectedTerms,
+    });
+  }, [selectedFile, industryId, feedAdapter, sourceLang, selectedFields]);
+
+  /**
+   * Downloads the feed's texts as XLIFF for one language, with the run's
+   * translations as targets when `prefill` is set.
+   */
+  const handleExportXliff = useCallback(
+    async (lang: string, version: XliffVersion, prefill: boolean) => {
+      if (!selectedFile) return;
+      const translated = results[lang]?.items;
+      const items = prefill && translated ? translated : await extractSourceItems();
+
+      const xliff = exportXliff(items, {
+        version,
+        sourceLang,
+        targetLang: lang,
+        original: selectedFile.name,
+        fieldLabel,
+      });
+      const baseName = selectedFile.name.replace(/\.[^.]+$/, "");
+      downloadFile(xliff, "application/xliff+xml;charset=utf-8", `${baseName}-${lang}.xlf`);
+    },
+    [selectedFile, results, extractSourceItems, sourceLang]
+  );
+
+  /**
+   * Builds a language's translated feed from an edited XLIFF file. The
+   * target language is the file's, or the only selected one.
+   */
+  const handleImportXliff = useCallback(
+    async (file: File): Promise<XliffImportResult> => {
+      if (!selectedFile) throw new Error("Select the source feed first");
+
+      let imported;
+      try {
+        imported = importXliff(await file.text());
+      } catch (err) {
+        if (err instanceof XmlParseError) throw new Error(`Invalid XLIFF file: ${err.message}`);
+        throw err;
+      }
+
+      const primary = (code: string) => code.split(/[-_]/)[0].toLowerCase();
+      if (imported.sourceLang && primary(imported.sourceLang) !== sourceLang) {
+        throw new Error(
+          `The file translates from ${imported.sourceLang}, but the feed is in ${languageName(sourceLang)}`
+        );
+      }
+      const lang = imported.targetLang
+        ? primary(imported.targetLang)
+        : targetLangs.length === 1
+          ? targetLangs[0]
+          : null;
+      if (!lang) throw new Error("The file does not name its target language");
+
+      const content = await selectedFile.text();
+      let items;
+      try {
+        items = await extractSourceItems();
+      } catch (err) {
+        if (err instanceof XmlParseError || err instanceof FeedFormatError) {
+          throw new Error(`Invalid source feed: ${err.message}`);
+        }
+        throw err;
+      }
+
+      const { translations } = imported;
+      const translatedFeed = feedAdapter.applyTranslations(content, items, translations);
+      const outputProblems = checkOutputFeed(feedAdapter, content, translatedFeed);
+      const reviewItems: ReviewItem[] = items.map(
+        ({ path, productId, productTitle, field, text }) => ({
+          path,
+          productId,
+          productTitle,
+          field,
+          text,
+          translation: translations.get(text) ?? null,
+          source: translations.has(text) ? "xliff" : null,
+        })
+      );
+      const translationCount = reviewItems.filter((item) => item.translation !== null).length;
+      const feedTexts = new Set(items.map((item) => item.text));
+      const unmatched = [...translations.keys()].filter((text) => !feedTexts.has(text)).length;
+
+      setResults((prev) => ({
+        ...prev,
+        [lang]: {
+          progress: { completed: translationCount, total: items.length, percent: 100 },
+          translatedFeed,
+          translationCount,
+          failedItems: [],
+          glossaryWarnings: [],
+          items: reviewItems,
+          outputProblems,
+        },
+      }));
+      setStatusMessage(
+        `Imported ${translationCount} of ${items.length} texts for ${languageName(lang)} from ${file.name}.`
+      );
+      setErrorMessage("");
+      setStatus("complete");
+
+      return {
+        message:
+          `${languageName(lang)}: ${translationCount} of ${items.length} texts translated from ` +
+          `${imported.unitCount} units` +
+          (unmatched > 0 ? `; ${unmatched} units match no text in the feed` : ""),
+        problems: [...imported.problems, ...outputProblems],
+      };
+    },
+    [selectedFile, sourceLang, targetLangs, extractSourceItems, feedAdapter]
+  );
+
+  const toggleTargetLang = (code: string) =>
+    setTargetLangs((prev) =>
+      prev.includes(code) ? prev.filter((l) => l !== code) : [...prev, code]
+    );
+
+  const languageName = (code: string) =>
+    LANGUAGES.find((l) => l.code === code)?.name ?? code;
 
   const canTranslate =
-    selectedFile && industryId && apiKey && status !== "translating";
+    selectedFile &&
+    industryId &&
+    apiKey &&
+    targetLangs.length > 0 &&
+    status !== "translating";
 
   return (
     <main className="min-h-screen">
@@ -191,7 +637,7 @@ export default function Home() {
                 CloudCart Feed Translator
               </h1>
               <p className="text-xs text-gray-500">
-                Industry-aware XML feed translation
+                Industry-aware product feed translation
               </p>
             </div>
           </div>
@@ -221,7 +667,7 @@ export default function Home() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".xml"
+              accept=".xml,.csv,.json,.jsonl,.ndjson"
               onChange={handleFileChange}
               className="hidden"
             />
@@ -231,7 +677,7 @@ export default function Home() {
                   {selectedFile.name}
                 </p>
                 <p className="text-sm text-gray-500">
-                  {(selectedFile.size / 1024 / 1024).toFixed(2)} MB - Click to
+                  {feedAdapter.name} - {(selectedFile.size / 1024 / 1024).toFixed(2)} MB - Click to
                   replace
                 </p>
               </div>
@@ -239,12 +685,59 @@ export default function Home() {
               <div className="space-y-2">
                 <div className="text-3xl">📄</div>
                 <p className="text-gray-400">
-                  Drop your CloudCart XML feed here or click to browse
+                  Drop your product feed here or click to browse
+                </p>
+                <p className="text-xs text-gray-600">
+                  CloudCart, Google Merchant Center and WooCommerce XML, Shopify product CSV or
+                  JSON / JSON Lines, up to 50MB
                 </p>
-                <p className="text-xs text-gray-600">Supports .xml files up to 50MB</p>
               </div>
             )}
           </div>
+
+          <details className="border border-gray-800 rounded-xl bg-gray-900/40 px-5 py-3">
+            <summary className="text-xs text-gray-400 cursor-pointer">
+              Incremental update (optional)
+            </summary>
+            <p className="text-xs text-gray-500 mt-3 mb-3">
+              Upload the previous source feed and its translated output to
+              translate only products that changed since then.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block">
+                <span className="block text-xs text-gray-500 mb-1.5">
+                  Previous source feed
+                </span>
+                <input
+                  type="file"
+                  accept=".xml,.csv,.json,.jsonl,.ndjson"
+                  onChange={(e) => setPreviousFile(e.target.files?.[0] ?? null)}
+                  className="w-full text-xs text-gray-400 file:mr-3 file:rounded-lg file:border-0 file:bg-gray-800 file:px-3 file:py-1.5 file:text-gray-300"
+                />
+              </label>
+              {targetLangs.map((lang) => (
+                <label key={lang} className="block">
+                  <span className="block text-xs text-gray-500 mb-1.5">
+                    Previous translated feed ({languageName(lang)})
+                  </span>
+                  <input
+                    type="file"
+                    accept=".xml,.csv,.json,.jsonl,.ndjson"
+                    onChange={(e) => {
+                      const translated = e.target.files?.[0];
+                      setPreviousTranslatedFiles((prev) => {
+                        const next = { ...prev };
+                        if (translated) next[lang] = translated;
+                        else delete next[lang];
+                        return next;
+                      });
+                    }}
+                    className="w-full text-xs text-gray-400 file:mr-3 file:rounded-lg file:border-0 file:bg-gray-800 file:px-3 file:py-1.5 file:text-gray-300"
+                  />
+                </label>
+              ))}
+            </div>
+          </details>
         </section>
 
         {/* Step 2: Languages */}
@@ -275,22 +768,31 @@ export default function Home() {
                 ))}
               </select>
             </div>
-            <div>
-              <label className="block text-xs text-gray-500 mb-1.5">
-                Target Language
-              </label>
-              <select
-                value={targetLang}
-                onChange={(e) => setTargetLang(e.target.value)}
-                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent"
-              >
-                {LANGUAGES.map((l) => (
-                  <option key={l.code} value={l.code}>
-                    {l.name}
-                  </option>
-                ))}
-              </select>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-500 mb-1.5">
+              Target Languages
+            </label>
+            <div className="flex flex-wrap gap-1.5">
+              {LANGUAGES.map((l) => (
+                <button
+                  key={l.code}
+                  onClick={() => toggleTargetLang(l.code)}
+                  className={`text-xs px-2.5 py-1.5 rounded-lg border transition-colors ${
+                    targetLangs.includes(l.code)
+                      ? "border-blue-500 bg-blue-950/40 text-blue-300"
+                      : "border-gray-700 bg-gray-900 text-gray-400 hover:border-gray-500"
+                  }`}
+                >
+                  {l.name}
+                </button>
+              ))}
             </div>
+            <p className="text-xs text-gray-600 mt-1.5">
+              Select one or more; the feed is parsed once and translated into
+              each language.
+            </p>
           </div>
         </section>
 
@@ -306,7 +808,7 @@ export default function Home() {
           </div>
 
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-            {industries.map((ind) => (
+            {industryOptions.map((ind) => (
               <button
                 key={ind.id}
                 onClick={() => setIndustryId(ind.id)}
@@ -323,17 +825,18 @@ export default function Home() {
                 <p className="text-xs text-gray-500 leading-relaxed">
                   {ind.description}
                 </p>
-                {ind.exampleTerms.length > 0 && industryId === ind.id && (
+                {industryId === ind.id && exampleTerms.length > 0 && (
                   <div className="mt-3 pt-3 border-t border-gray-800">
                     <p className="text-[10px] text-gray-600 uppercase tracking-wider mb-1.5">
                       Sample mappings
                     </p>
                     <div className="flex flex-wrap gap-1">
-                      {ind.exampleTerms.map((term) => (
+                      {exampleTerms.map(({ lang, term }) => (
                         <span
-                          key={term}
+                          key={`${lang}-${term}`}
                           className="text-[11px] bg-gray-800 text-gray-400 px-1.5 py-0.5 rounded"
                         >
+                          {targetLangs.length > 1 && `${lang}: `}
                           {term}
                         </span>
                       ))}
@@ -345,13 +848,40 @@ export default function Home() {
           </div>
 
           {industryId === "custom" && (
-            <textarea
-              value={customContext}
-              onChange={(e) => setCustomContext(e.target.value)}
-              placeholder="Describe your industry and the terminology style you want. For example: 'You are translating content for a premium outdoor sports equipment store. Use technical mountaineering and hiking terminology...'"
-              className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-sm h-32 resize-none focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent placeholder:text-gray-600"
+            <ProfileEditor
+              initialContext={customContext}
+              onContextChange={setCustomContext}
+              onSaved={(profile) => {
+                setProfiles((prev) => [...prev, profile]);
+                setIndustryId(profile.id);
+              }}
+            />
+          )}
+
+          {selectedProfile && (
+            <ProfileEditor
+              key={selectedProfile.id}
+              profile={selectedProfile}
+              onSaved={(profile) =>
+                setProfiles((prev) => prev.map((p) => (p.id === profile.id ? profile : p)))
+              }
+              onDeleted={(id) => {
+                setProfiles((prev) => prev.filter((p) => p.id !== id));
+                setIndustryId("");
+              }}
             />
           )}
+
+          {industryId && (
+            <GlossaryPanel
+              industryId={industryId}
+              sourceLang={sourceLang}
+              targetLangs={targetLangs}
+              languageName={languageName}
+            />
+          )}
+
+          {industryId && <ProtectedTermsPanel industryId={industryId} />}
         </section>
 
         {/* Step 4: Fields to Translate */}
@@ -366,6 +896,10 @@ export default function Home() {
           </div>
 
           <div className="border border-gray-800 rounded-xl p-5 bg-gray-900/40">
+            {feedAdapter.id === "json" && (
+              <JsonMappingEditor mapping={jsonMapping} onApply={handleApplyJsonMapping} />
+            )}
+
             <div className="flex items-center justify-between mb-4">
               <p className="text-xs text-gray-500">
                 Choose which product fields should be translated
@@ -374,7 +908,7 @@ export default function Home() {
                 <button
                   onClick={() =>
                     setSelectedFields(
-                      new Set(TRANSLATABLE_FIELDS.map((f) => f.id))
+                      new Set(feedAdapter.fields.map((f) => f.id))
                     )
                   }
                   className="text-[11px] text-blue-400 hover:text-blue-300 transition-colors"
@@ -393,13 +927,13 @@ export default function Home() {
 
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-x-6 gap-y-1">
               {Object.entries(
-                TRANSLATABLE_FIELDS.reduce(
+                feedAdapter.fields.reduce(
                   (acc, field) => {
                     if (!acc[field.group]) acc[field.group] = [];
                     acc[field.group].push(field);
                     return acc;
                   },
-                  {} as Record<string, typeof TRANSLATABLE_FIELDS>
+                  {} as Record<string, FeedAdapter["fields"]>
                 )
               ).map(([group, fields]) => (
                 <div key={group} className="space-y-1.5">
@@ -435,7 +969,7 @@ export default function Home() {
             </div>
 
             <p className="text-[11px] text-gray-600 mt-3 pt-3 border-t border-gray-800">
-              {selectedFields.size} of {TRANSLATABLE_FIELDS.length} fields
+              {selectedFields.size} of {feedAdapter.fields.length} fields
               selected
             </p>
           </div>
@@ -492,6 +1026,16 @@ export default function Home() {
           </button>
         </div>
 
+        {selectedFile && (
+          <XliffPanel
+            targetLangs={targetLangs}
+            languageName={languageName}
+            hasTranslations={(lang) => Boolean(results[lang]?.items)}
+            onExport={handleExportXliff}
+            onImport={handleImportXliff}
+          />
+        )}
+
         {/* Progress & Results */}
         {(status === "translating" ||
           status === "complete" ||
@@ -525,24 +1069,79 @@ export default function Home() {
                 </div>
               )}
 
-              {/* Progress bar */}
-              {status === "translating" && progress.total > 0 && (
-                <div>
-                  <div className="flex justify-between text-xs text-gray-500 mb-1.5">
-                    <span>
-                      {progress.completed} / {progress.total}
-                    </span>
-                    <span>{progress.percent}%</span>
-                  </div>
-                  <div className="w-full bg-gray-800 rounded-full h-2 overflow-hidden">
-                    <div
-                      className="bg-gradient-to-r from-blue-500 to-violet-500 h-full rounded-full transition-all duration-500"
-                      style={{ width: `${progress.percent}%` }}
-                    />
-                  </div>
-                </div>
+              {changes && (
+                <p className="text-xs text-gray-500 mb-4">
+                  Since previous feed: {changes.added.length} added,{" "}
+                  {changes.changed.length} changed, {changes.removed.length}{" "}
+                  removed, {changes.unchanged} unchanged products
+                </p>
               )}
 
+              {skippedItems.length > 0 && (
+                <details className="mb-4 text-xs">
+                  <summary className="text-gray-500 cursor-pointer">
+                    {skippedItems.length} values skipped as not {languageName(sourceLang)}
+                  </summary>
+                  <ul className="mt-2 max-h-48 overflow-y-auto space-y-1">
+                    {skippedItems.slice(0, MAX_SKIPPED_SHOWN).map((item) => (
+                      <li key={item.path} className="text-gray-500">
+                        <span className="text-gray-600">#{item.productId}</span>{" "}
+                        <span className="text-gray-400">{item.text.slice(0, 120)}</span>{" "}
+                        <span className="text-gray-600">
+                          (
+                          {item.detectedLanguage
+                            ? `${languageName(item.detectedLanguage)}, ${Math.round(
+                                item.confidence * 100
+                              )}% confidence`
+                            : `no ${languageName(sourceLang)} characters`}
+                          )
+                        </span>
+                      </li>
+                    ))}
+                    {skippedItems.length > MAX_SKIPPED_SHOWN && (
+                      <li className="text-gray-600">
+                        and {skippedItems.length - MAX_SKIPPED_SHOWN} more
+                      </li>
+                    )}
+                  </ul>
+                </details>
+              )}
+
+              {/* Per-language progress */}
+              <div className="space-y-3">
+                {Object.entries(results).map(([lang, result]) => (
+                  <div key={lang}>
+                    <div className="flex justify-between text-xs text-gray-500 mb-1.5">
+                      <span>
+                        {languageName(lang)}
+                        {result.progress.total > 0 &&
+                          ` - ${result.progress.completed} / ${result.progress.total}`}
+                      </span>
+                      <span>
+                        {result.translatedFeed ? "Done" : `${result.progress.percent}%`}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-800 rounded-full h-2 overflow-hidden">
+                      <div
+                        className="bg-gradient-to-r from-blue-500 to-violet-500 h-full rounded-full transition-all duration-500"
+                        style={{
+                          width: `${result.translatedFeed ? 100 : result.progress.percent}%`,
+                        }}
+                      />
+                    </div>
+                    {(result.reusedItems !== undefined ||
+                      result.memoryHits !== undefined) && (
+                      <p className="text-[11px] text-gray-600 mt-1">
+                        {result.reusedItems !== undefined &&
+                          `${result.reusedItems} reused from previous feed. `}
+                        {result.memoryHits !== undefined &&
+                          `Translation memory: ${result.memoryHits} reused, ${result.memoryMisses} new.`}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
               {/* Error */}
               {status === "error" && (
                 <div className="mt-3 p-3 bg-red-950/30 border border-red-800/50 rounded-lg">
@@ -551,20 +1150,157 @@ export default function Home() {
               )}
 
               {/* Complete */}
-              {status === "complete" && translatedXml && (
+              {status === "complete" && (
                 <div className="mt-4 space-y-3">
                   <div className="p-3 bg-green-950/30 border border-green-800/50 rounded-lg">
                     <p className="text-sm text-green-400">
-                      Translation complete! {translationCount} unique texts
-                      translated.
+                      Translation complete!{" "}
+                      {Object.entries(results)
+                        .map(
+                          ([lang, result]) =>
+                            `${languageName(lang)}: ${result.translationCount ?? 0} unique texts translated.`
+                        )
+                        .join(" ")}
                     </p>
                   </div>
-                  <button
-                    onClick={handleDownload}
-                    className="w-full py-3 rounded-xl font-medium text-sm bg-gradient-to-r from-emerald-600 to-green-600 hover:from-emerald-500 hover:to-green-500 transition-all shadow-lg shadow-green-900/30"
-                  >
-                    Download Translated Feed
-                  </button>
+                  {Object.entries(results).map(
+                    ([lang, result]) =>
+                      result.failedItems &&
+                      result.failedItems.length > 0 && (
+                        <div
+                          key={`failed-${lang}`}
+                          className="p-3 bg-amber-950/30 border border-amber-800/50 rounded-lg space-y-2"
+                        >
+                          <div className="flex items-center justify-between gap-3">
+                            <p className="text-sm text-amber-400">
+                              {languageName(lang)}: {result.failedItems.length} items
+                              could not be translated and were left unchanged.
+                            </p>
+                            <button
+                              onClick={() => handleRetryFailed(lang)}
+                              className="shrink-0 text-xs px-3 py-1.5 rounded-lg bg-amber-700/40 text-amber-200 hover:bg-amber-700/60 transition-colors"
+                            >
+                              Retry failed items
+                            </button>
+                          </div>
+                          <details>
+                            <summary className="text-xs text-amber-500/80 cursor-pointer">
+                              Show failed items
+                            </summary>
+                            <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+                              {result.failedItems.map((item) => (
+                                <li key={item.path} className="text-[11px] text-gray-400">
+                                  <span className="text-gray-500">
+                                    #{item.productId} {item.field}:
+                                  </span>{" "}
+                                  {item.text.slice(0, 80)}
+                                  {item.text.length > 80 && "..."}{" "}
+                                  <span className="text-red-400/80">({item.error})</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
+                        </div>
+                      )
+                  )}
+                  {Object.entries(results).map(
+                    ([lang, result]) =>
+                      result.glossaryWarnings &&
+                      result.glossaryWarnings.length > 0 && (
+                        <details
+                          key={`glossary-${lang}`}
+                          className="p-3 bg-gray-900/60 border border-gray-700 rounded-lg"
+                        >
+                          <summary className="text-xs text-gray-400 cursor-pointer">
+                            {languageName(lang)}: {result.glossaryWarnings.length} translations
+                            do not use a required glossary term
+                          </summary>
+                          <ul className="mt-2 space-y-1.5 max-h-48 overflow-y-auto">
+                            {result.glossaryWarnings.map((item) => (
+                              <li key={item.path} className="text-[11px] text-gray-400">
+                                <span className="text-gray-500">
+                                  #{item.productId} {item.field}:
+                                </span>{" "}
+                                {item.translation.slice(0, 80)}
+                                {item.translation.length > 80 && "..."}{" "}
+                                <span className="text-amber-400/80">
+                                  (missing {item.missingTerms.join(", ")})
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )
+                  )}
+                  {Object.entries(results).map(
+                    ([lang, result]) =>
+                      result.items &&
+                      result.items.length > 0 && (
+                        <ReviewPanel
+                          key={`review-${lang}`}
+                          title={languageName(lang)}
+                          items={result.items}
+                          onApply={(edits) => handleApplyEdits(lang, edits)}
+                        />
+                      )
+                  )}
+                  {Object.entries(results).map(
+                    ([lang, result]) =>
+                      result.outputProblems &&
+                      result.outputProblems.length > 0 && (
+                        <div
+                          key={`invalid-${lang}`}
+                          className="p-3 bg-red-950/30 border border-red-800/50 rounded-lg"
+                        >
+                          <p className="text-sm text-red-400">
+                            {languageName(lang)}: the translated feed failed validation and
+                            cannot be downloaded.
+                          </p>
+                          <ul className="mt-1 text-[11px] text-red-400/80 list-disc list-inside">
+                            {result.outputProblems.map((problem) => (
+                              <li key={problem}>{problem}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )
+                  )}
+                  {Object.entries(results).map(
+                    ([lang, result]) =>
+                      result.translatedFeed &&
+                      !result.outputProblems?.length && (
+                        <button
+                          key={lang}
+                          onClick={() => handleDownload(lang)}
+                          className="w-full py-3 rounded-xl font-medium text-sm bg-gradient-to-r from-emerald-600 to-green-600 hover:from-emerald-500 hover:to-green-500 transition-all shadow-lg shadow-green-900/30"
+                        >
+                          Download Translated Feed ({languageName(lang)})
+                        </button>
+                      )
+                  )}
+                  {Object.entries(results).map(
+                    ([lang, result]) =>
+                      result.items && (
+                        <div
+                          key={`report-${lang}`}
+                          className="flex items-center justify-center gap-3 text-xs text-gray-500"
+                        >
+                          <span>Change report ({languageName(lang)}):</span>
+                          <button
+                            onClick={() => handleDownloadReport(lang, "csv")}
+                            className="text-blue-400 hover:text-blue-300 transition-colors"
+                          >
+                            CSV
+                          </button>
+                          <span className="text-gray-700">|</span>
+                          <button
+                            onClick={() => handleDownloadReport(lang, "html")}
+                            className="text-blue-400 hover:text-blue-300 transition-colors"
+                          >
+                            HTML
+                          </button>
+                        </div>
+                      )
+                  )}
                 </div>
               )}
             </div>
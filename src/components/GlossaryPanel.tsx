@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import TermMiningPanel from "./TermMiningPanel";
+
+interface GlossaryPanelProps {
+  industryId: string;
+  sourceLang: string;
+  targetLangs: string[];
+  languageName: (code: string) => string;
+}
+
+interface TermRow {
+  source: string;
+  target: string;
+}
+
+/**
+ * Editor for the user's glossary of an industry and language pair, with
+ * CSV/TBX import and export. User terms override the built-in glossary.
+ */
+export default function GlossaryPanel({
+  industryId,
+  sourceLang,
+  targetLangs,
+  languageName,
+}: GlossaryPanelProps) {
+  const [targetLang, setTargetLang] = useState(targetLangs[0] ?? "");
+  const [rows, setRows] = useState<TermRow[]>([]);
+  const [builtInCount, setBuiltInCount] = useState(0);
+  const [dirty, setDirty] = useState(false);
+  const [message, setMessage] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Follow the target language selection in step 2
+  useEffect(() => {
+    if (!targetLangs.includes(targetLang)) setTargetLang(targetLangs[0] ?? "");
+  }, [targetLangs, targetLang]);
+
+  const query = new URLSearchParams({ industry: industryId, sourceLang, targetLang });
+
+  const applyTerms = (terms: Record<string, string>) => {
+    setRows(Object.entries(terms).map(([source, target]) => ({ source, target })));
+    setDirty(false);
+  };
+
+  useEffect(() => {
+    if (!industryId || !targetLang) return;
+    let cancelled = false;
+    setMessage("");
+    fetch(`/api/glossaries?${new URLSearchParams({ industry: industryId, sourceLang, targetLang })}`)
+      .then((res) => res.json())
+      .then((data: { terms?: Record<string, string>; builtInCount?: number; error?: string }) => {
+        if (cancelled) return;
+        if (data.error) {
+          setMessage(data.error);
+          return;
+        }
+        applyTerms(data.terms ?? {});
+        setBuiltInCount(data.builtInCount ?? 0);
+      })
+      .catch(() => !cancelled && setMessage("Could not load the glossary"));
+    return () => {
+      cancelled = true;
+    };
+  }, [industryId, sourceLang, targetLang]);
+
+  const updateRow = (index: number, update: Partial<TermRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...update } : row)));
+    setDirty(true);
+  };
+
+  /** Adds or overwrites entries; they are kept once the glossary is saved */
+  const mergeTerms = (terms: Record<string, string>) => {
+    setRows((prev) => [
+      ...prev.map((row) => (row.source in terms ? { ...row, target: terms[row.source] } : row)),
+      ...Object.entries(terms)
+        .filter(([source]) => !prev.some((row) => row.source === source))
+        .map(([source, target]) => ({ source, target })),
+    ]);
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    const terms = Object.fromEntries(rows.map((row) => [row.source, row.target]));
+    const res = await fetch("/api/glossaries", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ industry: industryId, sourceLang, targetLang, terms }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMessage(data.error ?? "Could not save the glossary");
+      return;
+    }
+    applyTerms(data.terms);
+    setMessage("Glossary saved");
+  };
+
+  const handleImport = async (file: File) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("industry", industryId);
+    formData.append("sourceLang", sourceLang);
+    formData.append("targetLang", targetLang);
+    formData.append("mode", "merge");
+
+    const res = await fetch("/api/glossaries", { method: "POST", body: formData });
+    const data = await res.json();
+    if (!res.ok) {
+      setMessage(data.error ?? "Could not import the glossary");
+      return;
+    }
+    applyTerms(data.terms);
+    setMessage(`Imported ${data.importedCount} terms from ${file.name}`);
+  };
+
+  if (!targetLang) return null;
+
+  return (
+    <details className="border border-gray-800 rounded-xl bg-gray-900/40 px-5 py-3">
+      <summary className="text-xs text-gray-400 cursor-pointer">
+        Your glossary ({rows.length} terms, {builtInCount} built-in)
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-xs text-gray-500">
+            {languageName(sourceLang)} →
+          </span>
+          <select
+            value={targetLang}
+            onChange={(e) => setTargetLang(e.target.value)}
+            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-600"
+          >
+            {targetLangs.map((lang) => (
+              <option key={lang} value={lang}>
+                {languageName(lang)}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2 ml-auto">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="text-[11px] text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Import CSV/TBX
+            </button>
+            <span className="text-gray-700">|</span>
+            <a
+              href={`/api/glossaries?${query}&format=csv`}
+              className="text-[11px] text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Export CSV
+            </a>
+            <span className="text-gray-700">|</span>
+            <a
+              href={`/api/glossaries?${query}&format=tbx`}
+              className="text-[11px] text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Export TBX
+            </a>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".csv,.tbx,.xml,.txt"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = "";
+              }}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1.5 max-h-64 overflow-y-auto">
+          {rows.map((row, i) => (
+            <div key={i} className="flex gap-2">
+              <input
+                value={row.source}
+                onChange={(e) => updateRow(i, { source: e.target.value })}
+                placeholder="Source term"
+                className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-600"
+              />
+              <input
+                value={row.target}
+                onChange={(e) => updateRow(i, { target: e.target.value })}
+                placeholder="Translation"
+                className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-600"
+              />
+              <button
+                onClick={() => {
+                  setRows((prev) => prev.filter((_, j) => j !== i));
+                  setDirty(true);
+                }}
+                className="text-xs text-gray-500 hover:text-red-400 px-1"
+                aria-label="Remove term"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => {
+              setRows((prev) => [...prev, { source: "", target: "" }]);
+              setDirty(true);
+            }}
+            className="text-xs px-3 py-1.5 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+          >
+            Add term
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!dirty}
+            className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${
+              dirty
+                ? "bg-blue-600 text-white hover:bg-blue-500"
+                : "bg-gray-800 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            Save glossary
+          </button>
+          {message && <span className="text-[11px] text-gray-500">{message}</span>}
+        </div>
+
+        <TermMiningPanel
+          industryId={industryId}
+          sourceLang={sourceLang}
+          targetLang={targetLang}
+          onAdd={mergeTerms}
+        />
+      </div>
+    </details>
+  );
+}
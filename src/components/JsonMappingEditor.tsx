@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import {
+  formatFieldMappings,
+  jsonMappingProblems,
+  parseFieldMappings,
+  type JsonFeedMapping,
+} from "@/lib/json-feed-parser";
+import { TRANSLATABLE_FIELD_IDS } from "@/lib/feed-adapter";
+
+interface JsonMappingEditorProps {
+  mapping: JsonFeedMapping;
+  onApply: (mapping: JsonFeedMapping) => void;
+}
+
+const inputClass =
+  "w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-600 placeholder:text-gray-600";
+
+/**
+ * Editor for how a JSON feed is read: where the products are, their id and
+ * title, and which paths within a product hold which fields.
+ */
+export default function JsonMappingEditor({ mapping, onApply }: JsonMappingEditorProps) {
+  const [recordsPath, setRecordsPath] = useState(mapping.recordsPath);
+  const [idPath, setIdPath] = useState(mapping.idPath);
+  const [titlePath, setTitlePath] = useState(mapping.titlePath);
+  const [fieldsText, setFieldsText] = useState(formatFieldMappings(mapping.fields));
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const handleApply = () => {
+    const parsed = parseFieldMappings(fieldsText);
+    const next = {
+      recordsPath: recordsPath.trim(),
+      idPath: idPath.trim(),
+      titlePath: titlePath.trim(),
+      fields: parsed.fields,
+    };
+    const found = [...parsed.problems, ...jsonMappingProblems(next)];
+    setProblems(found);
+    if (found.length === 0) onApply(next);
+  };
+
+  return (
+    <div className="space-y-3 mb-4 pb-4 border-b border-gray-800">
+      <p className="text-xs text-gray-500">
+        JSON feed mapping. Paths are relative to a product; use <code>[*]</code> for every
+        element of a list, e.g. <code>variants[*].options[*].value</code>.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="block">
+          <span className="block text-[11px] text-gray-500 mb-1">Products at</span>
+          <input
+            value={recordsPath}
+            onChange={(e) => setRecordsPath(e.target.value)}
+            placeholder="auto, e.g. data.products[*]"
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-[11px] text-gray-500 mb-1">Product id</span>
+          <input value={idPath} onChange={(e) => setIdPath(e.target.value)} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="block text-[11px] text-gray-500 mb-1">Product title</span>
+          <input
+            value={titlePath}
+            onChange={(e) => setTitlePath(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <label className="block">
+        <span className="block text-[11px] text-gray-500 mb-1">
+          One <code>path = field</code> per line. Fields: {TRANSLATABLE_FIELD_IDS.join(", ")}
+        </span>
+        <textarea
+          value={fieldsText}
+          onChange={(e) => setFieldsText(e.target.value)}
+          className={`${inputClass} h-36 resize-y`}
+        />
+      </label>
+      <div className="flex items-start gap-3">
+        <button
+          onClick={handleApply}
+          className="text-xs px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors"
+        >
+          Apply mapping
+        </button>
+        {problems.length > 0 && (
+          <ul className="text-[11px] text-red-400 space-y-0.5">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import type { IndustryProfile } from "@/lib/industry-profiles";
+
+interface ProfileEditorProps {
+  /** The profile to edit; omitted for the one-off custom industry */
+  profile?: IndustryProfile;
+  /** Starting context when there is no profile */
+  initialContext?: string;
+  /** Called as the context changes, so a one-off run can use it unsaved */
+  onContextChange?: (context: string) => void;
+  onSaved: (profile: IndustryProfile) => void;
+  onDeleted?: (id: string) => void;
+}
+
+const TONES = ["", "formal", "neutral", "friendly", "luxurious", "technical"];
+const SPELLING_VARIANTS = ["", "British English", "American English"];
+
+const inputClass =
+  "w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-600 focus:border-transparent placeholder:text-gray-600";
+
+/**
+ * Form for a custom industry profile: edits a saved profile, or saves the
+ * one-off custom context as a new profile.
+ */
+export default function ProfileEditor({
+  profile,
+  initialContext = "",
+  onContextChange,
+  onSaved,
+  onDeleted,
+}: ProfileEditorProps) {
+  const [name, setName] = useState(profile?.name ?? "");
+  const [description, setDescription] = useState(profile?.description ?? "");
+  const [context, setContext] = useState(profile?.context ?? initialContext);
+  const [tone, setTone] = useState(profile?.tone ?? "");
+  const [spellingVariant, setSpellingVariant] = useState(profile?.spellingVariant ?? "");
+  const [brandNames, setBrandNames] = useState((profile?.brandNames ?? []).join(", "));
+  const [message, setMessage] = useState("");
+
+  const canSave = name.trim() !== "" && context.trim() !== "";
+
+  const handleSave = async () => {
+    const res = await fetch("/api/profiles", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        id: profile?.id,
+        name,
+        description,
+        context,
+        tone,
+        spellingVariant,
+        brandNames: brandNames.split(",").map((b) => b.trim()).filter(Boolean),
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMessage(data.error ?? "Could not save the profile");
+      return;
+    }
+    setMessage("Profile saved");
+    onSaved(data.profile);
+  };
+
+  const handleDelete = async () => {
+    if (!profile || !confirm(`Delete the profile "${profile.name}"?`)) return;
+    const res = await fetch(`/api/profiles?${new URLSearchParams({ id: profile.id })}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) {
+      setMessage((await res.json()).error ?? "Could not delete the profile");
+      return;
+    }
+    onDeleted?.(profile.id);
+  };
+
+  return (
+    <div className="border border-gray-800 rounded-xl p-5 bg-gray-900/40 space-y-3">
+      <textarea
+        value={context}
+        onChange={(e) => {
+          setContext(e.target.value);
+          onContextChange?.(e.target.value);
+        }}
+        placeholder="Describe your industry and the terminology style you want. For example: 'You are translating content for a premium outdoor sports equipment store. Use technical mountaineering and hiking terminology...'"
+        className={`${inputClass} h-32 resize-none`}
+      />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-xs text-gray-500 mb-1.5">Tone</span>
+          <select value={tone} onChange={(e) => setTone(e.target.value)} className={inputClass}>
+            {TONES.map((t) => (
+              <option key={t} value={t}>
+                {t || "No preference"}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-500 mb-1.5">Spelling</span>
+          <select
+            value={spellingVariant}
+            onChange={(e) => setSpellingVariant(e.target.value)}
+            className={inputClass}
+          >
+            {SPELLING_VARIANTS.map((v) => (
+              <option key={v} value={v}>
+                {v || "No preference"}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-500 mb-1.5">Profile name</span>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Outdoor & Sports"
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-500 mb-1.5">Description</span>
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Optional"
+            className={inputClass}
+          />
+        </label>
+        <label className="block sm:col-span-2">
+          <span className="block text-xs text-gray-500 mb-1.5">
+            Brand names (comma-separated, never translated)
+          </span>
+          <input
+            value={brandNames}
+            onChange={(e) => setBrandNames(e.target.value)}
+            placeholder="Salomon, Black Diamond, Petzl"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${
+            canSave
+              ? "bg-blue-600 text-white hover:bg-blue-500"
+              : "bg-gray-800 text-gray-500 cursor-not-allowed"
+          }`}
+        >
+          {profile ? "Save changes" : "Save as profile"}
+        </button>
+        {profile && (
+          <button
+            onClick={handleDelete}
+            className="text-xs px-3 py-1.5 rounded-lg bg-gray-800 text-gray-400 hover:text-red-400 transition-colors"
+          >
+            Delete profile
+          </button>
+        )}
+        {message && <span className="text-[11px] text-gray-500">{message}</span>}
+      </div>
+    </div>
+  );
+}
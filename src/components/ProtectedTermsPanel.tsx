@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface ProtectedTermsPanelProps {
+  industryId: string;
+}
+
+/**
+ * Editor for the industry's do-not-translate list, one term per line.
+ * Collection names and brand strings listed here are kept exactly as
+ * written in every language.
+ */
+export default function ProtectedTermsPanel({ industryId }: ProtectedTermsPanelProps) {
+  const [text, setText] = useState("");
+  const [count, setCount] = useState(0);
+  const [dirty, setDirty] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const applyTerms = (terms: string[]) => {
+    setText(terms.join("\n"));
+    setCount(terms.length);
+    setDirty(false);
+  };
+
+  useEffect(() => {
+    if (!industryId) return;
+    let cancelled = false;
+    setMessage("");
+    fetch(`/api/protected-terms?${new URLSearchParams({ industry: industryId })}`)
+      .then((res) => res.json())
+      .then((data: { terms?: string[]; error?: string }) => {
+        if (cancelled) return;
+        if (data.error) {
+          setMessage(data.error);
+          return;
+        }
+        applyTerms(data.terms ?? []);
+      })
+      .catch(() => !cancelled && setMessage("Could not load the protected terms"));
+    return () => {
+      cancelled = true;
+    };
+  }, [industryId]);
+
+  const handleSave = async () => {
+    const res = await fetch("/api/protected-terms", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ industry: industryId, terms: text.split("\n") }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setMessage(data.error ?? "Could not save the protected terms");
+      return;
+    }
+    applyTerms(data.terms);
+    setMessage("Protected terms saved");
+  };
+
+  return (
+    <details className="border border-gray-800 rounded-xl bg-gray-900/40 px-5 py-3">
+      <summary className="text-xs text-gray-400 cursor-pointer">
+        Do not translate ({count} terms)
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <p className="text-[11px] text-gray-500">
+          One term per line, e.g. collection names and brand strings. They are kept exactly as
+          written; values made up only of these terms are not translated at all.
+        </p>
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setDirty(true);
+          }}
+          placeholder={"Royal Oak\nСерия Тракия"}
+          className="w-full h-28 resize-y bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-600"
+        />
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleSave}
+            disabled={!dirty}
+            className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${
+              dirty
+                ? "bg-blue-600 text-white hover:bg-blue-500"
+                : "bg-gray-800 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            Save terms
+          </button>
+          {message && <span className="text-[11px] text-gray-500">{message}</span>}
+        </div>
+      </div>
+    </details>
+  );
+}
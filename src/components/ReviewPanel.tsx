@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { fieldLabel } from "@/lib/feed-formats";
+import type { ReportSource } from "@/lib/report";
+
+export interface ReviewItem {
+  path: string;
+  productId: string;
+  productTitle: string;
+  field: string;
+  text: string;
+  /** null when the item could not be translated */
+  translation: string | null;
+  source: ReportSource | null;
+}
+
+interface ReviewPanelProps {
+  title: string;
+  items: ReviewItem[];
+  /**
+   * Receives path -> edited translation; the caller rewrites the feed.
+   * Returns why the edits could not be applied, if they break the feed.
+   */
+  onApply: (edits: Record<string, string>) => string | null;
+}
+
+/** Rows rendered at a time; large feeds have thousands of items */
+const PAGE_SIZE = 100;
+
+/**
+ * Side-by-side table of original and translated text per item, filterable
+ * by field and product, with inline editing of individual translations.
+ */
+export default function ReviewPanel({ title, items, onApply }: ReviewPanelProps) {
+  const [field, setField] = useState("");
+  const [productQuery, setProductQuery] = useState("");
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const [applyError, setApplyError] = useState("");
+
+  const fields = useMemo(() => [...new Set(items.map((item) => item.field))], [items]);
+
+  const filtered = useMemo(() => {
+    const query = productQuery.trim().toLowerCase();
+    return items.filter(
+      (item) =>
+        (!field || item.field === field) &&
+        (!query ||
+          item.productId.toLowerCase() === query ||
+          item.productTitle.toLowerCase().includes(query))
+    );
+  }, [items, field, productQuery]);
+
+  const editCount = Object.keys(edits).length;
+
+  const updateEdit = (item: ReviewItem, value: string) =>
+    setEdits((prev) => {
+      const next = { ...prev };
+      if (value === (item.translation ?? item.text)) delete next[item.path];
+      else next[item.path] = value;
+      return next;
+    });
+
+  const inputClass =
+    "bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-600";
+
+  return (
+    <details className="p-3 bg-gray-900/60 border border-gray-700 rounded-lg">
+      <summary className="text-xs text-gray-400 cursor-pointer">
+        Review translations: {title}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={field}
+            onChange={(e) => {
+              setField(e.target.value);
+              setShown(PAGE_SIZE);
+            }}
+            className={inputClass}
+          >
+            <option value="">All fields</option>
+            {fields.map((f) => (
+              <option key={f} value={f}>
+                {fieldLabel(f)}
+              </option>
+            ))}
+          </select>
+          <input
+            value={productQuery}
+            onChange={(e) => {
+              setProductQuery(e.target.value);
+              setShown(PAGE_SIZE);
+            }}
+            placeholder="Product id or title"
+            className={`${inputClass} flex-1 min-w-40`}
+          />
+          <span className="text-[11px] text-gray-500">
+            {filtered.length} of {items.length} items
+          </span>
+        </div>
+
+        <div className="max-h-[32rem] overflow-y-auto border border-gray-800 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-gray-900 text-gray-500 text-left">
+              <tr>
+                <th className="px-2 py-1.5 font-normal w-32">Product / field</th>
+                <th className="px-2 py-1.5 font-normal">Original</th>
+                <th className="px-2 py-1.5 font-normal">Translation</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.slice(0, shown).map((item) => {
+                const edited = item.path in edits;
+                const value = edits[item.path] ?? item.translation ?? item.text;
+                return (
+                  <tr key={item.path} className="border-t border-gray-800 align-top">
+                    <td className="px-2 py-1.5 text-gray-500">
+                      <div className="truncate" title={item.productTitle}>
+                        #{item.productId} {item.productTitle}
+                      </div>
+                      <div className="text-[10px] text-gray-600">{fieldLabel(item.field)}</div>
+                    </td>
+                    <td className="px-2 py-1.5 text-gray-400 whitespace-pre-wrap break-words">
+                      {item.text}
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <textarea
+                        value={value}
+                        onChange={(e) => updateEdit(item, e.target.value)}
+                        rows={Math.min(6, Math.ceil(value.length / 50) || 1)}
+                        className={`${inputClass} w-full resize-y ${
+                          edited ? "border-blue-500" : item.translation === null ? "border-amber-700" : ""
+                        }`}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {filtered.length > shown && (
+            <button
+              onClick={() => setShown((n) => n + PAGE_SIZE)}
+              className="w-full py-2 text-[11px] text-blue-400 hover:text-blue-300"
+            >
+              Show more ({filtered.length - shown} remaining)
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => {
+              // Rejected edits are kept so they can be corrected
+              const error = onApply(edits);
+              setApplyError(error ?? "");
+              if (!error) setEdits({});
+            }}
+            disabled={editCount === 0}
+            className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${
+              editCount > 0
+                ? "bg-blue-600 text-white hover:bg-blue-500"
+                : "bg-gray-800 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            Apply {editCount} edits to the feed
+          </button>
+          {editCount > 0 && (
+            <button
+              onClick={() => setEdits({})}
+              className="text-xs px-3 py-1.5 rounded-lg bg-gray-800 text-gray-400 hover:bg-gray-700 transition-colors"
+            >
+              Discard edits
+            </button>
+          )}
+          {applyError && <span className="text-[11px] text-red-400">{applyError}</span>}
+        </div>
+      </div>
+    </details>
+  );
+}
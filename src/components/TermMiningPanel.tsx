@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import type { TermCandidate } from "@/lib/term-mining";
+
+interface TermMiningPanelProps {
+  industryId: string;
+  sourceLang: string;
+  targetLang: string;
+  /** Receives the accepted source -> target entries */
+  onAdd: (terms: Record<string, string>) => void;
+}
+
+const fileInputClass =
+  "w-full text-xs text-gray-400 file:mr-3 file:rounded-lg file:border-0 file:bg-gray-800 file:px-3 file:py-1.5 file:text-gray-300";
+
+/**
+ * Proposes glossary entries from a feed and its human translation; the
+ * user reviews (and may edit) them before they are added.
+ */
+export default function TermMiningPanel({
+  industryId,
+  sourceLang,
+  targetLang,
+  onAdd,
+}: TermMiningPanelProps) {
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [translatedFile, setTranslatedFile] = useState<File | null>(null);
+  const [candidates, setCandidates] = useState<TermCandidate[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const handleMine = async () => {
+    if (!sourceFile || !translatedFile) return;
+    const formData = new FormData();
+    formData.append("sourceFile", sourceFile);
+    formData.append("translatedFile", translatedFile);
+    formData.append("industry", industryId);
+    formData.append("sourceLang", sourceLang);
+    formData.append("targetLang", targetLang);
+
+    setLoading(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/glossaries/mine", { method: "POST", body: formData });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data.error ?? "Could not analyse the feeds");
+        return;
+      }
+      const found: TermCandidate[] = data.candidates;
+      setCandidates(found);
+      // Preselect the unambiguous ones
+      setSelected(new Set(found.filter((c) => c.agreement === 1).map((c) => c.source)));
+      setMessage(found.length === 0 ? "No new recurring terms found" : "");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTarget = (source: string, target: string) =>
+    setCandidates((prev) => prev.map((c) => (c.source === source ? { ...c, target } : c)));
+
+  const handleAdd = () => {
+    const accepted = candidates.filter((c) => selected.has(c.source) && c.target.trim());
+    onAdd(Object.fromEntries(accepted.map((c) => [c.source, c.target.trim()])));
+    setCandidates((prev) => prev.filter((c) => !selected.has(c.source)));
+    setSelected(new Set());
+    setMessage(`Added ${accepted.length} terms; save the glossary to keep them`);
+  };
+
+  return (
+    <details className="border-t border-gray-800 pt-3">
+      <summary className="text-xs text-gray-400 cursor-pointer">
+        Suggest terms from an existing translation
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <p className="text-xs text-gray-500">
+          Upload a source feed and its human-translated counterpart. Categories,
+          property names and option values that recur are proposed as glossary
+          entries.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block text-xs text-gray-500 mb-1.5">Source feed</span>
+            <input
+              type="file"
+              accept=".xml,.csv,.json,.jsonl,.ndjson"
+              onChange={(e) => setSourceFile(e.target.files?.[0] ?? null)}
+              className={fileInputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs text-gray-500 mb-1.5">Translated feed</span>
+            <input
+              type="file"
+              accept=".xml,.csv,.json,.jsonl,.ndjson"
+              onChange={(e) => setTranslatedFile(e.target.files?.[0] ?? null)}
+              className={fileInputClass}
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleMine}
+            disabled={!sourceFile || !translatedFile || loading}
+            className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${
+              sourceFile && translatedFile && !loading
+                ? "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                : "bg-gray-800 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            {loading ? "Analysing..." : "Find terms"}
+          </button>
+          {message && <span className="text-[11px] text-gray-500">{message}</span>}
+        </div>
+
+        {candidates.length > 0 && (
+          <>
+            <ul className="space-y-1.5 max-h-64 overflow-y-auto">
+              {candidates.map((c) => (
+                <li key={c.source} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(c.source)}
+                    onChange={(e) => {
+                      const next = new Set(selected);
+                      if (e.target.checked) next.add(c.source);
+                      else next.delete(c.source);
+                      setSelected(next);
+                    }}
+                    className="rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-600 focus:ring-offset-0 w-3.5 h-3.5"
+                  />
+                  <span className="flex-1 text-gray-300 truncate" title={c.source}>
+                    {c.source}
+                  </span>
+                  <input
+                    value={c.target}
+                    onChange={(e) => updateTarget(c.source, e.target.value)}
+                    list={`alternatives-${c.source}`}
+                    className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-600"
+                  />
+                  {c.alternatives.length > 0 && (
+                    <datalist id={`alternatives-${c.source}`}>
+                      {c.alternatives.map((alt) => (
+                        <option key={alt} value={alt} />
+                      ))}
+                    </datalist>
+                  )}
+                  <span
+                    className={`w-20 text-right text-[11px] ${
+                      c.agreement < 1 ? "text-amber-400/80" : "text-gray-500"
+                    }`}
+                    title={
+                      c.alternatives.length > 0
+                        ? `Also translated as: ${c.alternatives.join(", ")}`
+                        : undefined
+                    }
+                  >
+                    {c.occurrences}× {c.agreement < 1 && `(${Math.round(c.agreement * 100)}%)`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={handleAdd}
+              disabled={selected.size === 0}
+              className={`text-xs px-3 py-1.5 rounded-lg transition-colors ${
+                selected.size > 0
+                  ? "bg-blue-600 text-white hover:bg-blue-500"
+                  : "bg-gray-800 text-gray-500 cursor-not-allowed"
+              }`}
+            >
+              Add {selected.size} selected to glossary
+            </button>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import type { XliffVersion } from "@/lib/xliff";
+
+export interface XliffImportResult {
+  message: string;
+  problems: string[];
+}
+
+interface XliffPanelProps {
+  targetLangs: string[];
+  languageName: (code: string) => string;
+  /** Whether a translation run has produced targets to pre-fill */
+  hasTranslations: (lang: string) => boolean;
+  onExport: (lang: string, version: XliffVersion, prefill: boolean) => Promise<void>;
+  /** Writes the file's translations into the feed; rejects with a readable error */
+  onImport: (file: File) => Promise<XliffImportResult>;
+}
+
+const fileInputClass =
+  "w-full text-xs text-gray-400 file:mr-3 file:rounded-lg file:border-0 file:bg-gray-800 file:px-3 file:py-1.5 file:text-gray-300";
+
+/** Problems listed after an import; the rest are counted */
+const MAX_PROBLEMS_SHOWN = 50;
+
+/**
+ * Exports the feed's texts as XLIFF for translators working in a CAT tool
+ * and imports the edited file back into a translated feed.
+ */
+export default function XliffPanel({
+  targetLangs,
+  languageName,
+  hasTranslations,
+  onExport,
+  onImport,
+}: XliffPanelProps) {
+  const [version, setVersion] = useState<XliffVersion>("1.2");
+  const [prefill, setPrefill] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<XliffImportResult | null>(null);
+
+  const handleExport = async (lang: string) => {
+    setBusy(true);
+    setResult(null);
+    try {
+      await onExport(lang, version, prefill && hasTranslations(lang));
+    } catch (err) {
+      setResult({
+        message: err instanceof Error ? err.message : "Could not export the feed",
+        problems: [],
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setBusy(true);
+    setResult(null);
+    try {
+      setResult(await onImport(file));
+    } catch (err) {
+      setResult({
+        message: err instanceof Error ? err.message : "Could not import the file",
+        problems: [],
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <details className="border border-gray-800 rounded-xl bg-gray-900/40 px-5 py-3">
+      <summary className="text-xs text-gray-400 cursor-pointer">
+        Translator round trip (XLIFF)
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <p className="text-xs text-gray-500">
+          Export each distinct text once, with the products and fields it appears in as
+          notes, for post-editing in a CAT tool. Import the edited file to build the
+          translated feed from it.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={version}
+            onChange={(e) => setVersion(e.target.value as XliffVersion)}
+            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-600"
+          >
+            <option value="1.2">XLIFF 1.2</option>
+            <option value="2.0">XLIFF 2.0</option>
+          </select>
+          <label className="flex items-center gap-1.5 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={prefill}
+              onChange={(e) => setPrefill(e.target.checked)}
+              className="rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-600 focus:ring-offset-0 w-3.5 h-3.5"
+            />
+            Pre-fill with translations
+          </label>
+          {targetLangs.map((lang) => (
+            <button
+              key={lang}
+              onClick={() => handleExport(lang)}
+              disabled={busy}
+              title={
+                prefill && !hasTranslations(lang)
+                  ? "Not translated yet; exported without targets"
+                  : undefined
+              }
+              className="text-xs px-3 py-1.5 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              Export {languageName(lang)}
+            </button>
+          ))}
+        </div>
+
+        <label className="block">
+          <span className="block text-xs text-gray-500 mb-1.5">Import edited XLIFF</span>
+          <input
+            type="file"
+            accept=".xlf,.xliff,.xml"
+            onChange={handleImport}
+            disabled={busy}
+            className={fileInputClass}
+          />
+        </label>
+
+        {result && (
+          <div className="text-[11px] space-y-1">
+            <p className="text-gray-400">{result.message}</p>
+            {result.problems.length > 0 && (
+              <ul className="text-amber-500/80 space-y-0.5 max-h-40 overflow-y-auto">
+                {result.problems.slice(0, MAX_PROBLEMS_SHOWN).map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+                {result.problems.length > MAX_PROBLEMS_SHOWN && (
+                  <li>and {result.problems.length - MAX_PROBLEMS_SHOWN} more</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * Adaptive Concurrency Pool
+ *
+ * Runs async tasks with a bounded number in flight. When the API signals
+ * throttling, the limit is halved and new tasks wait out the requested
+ * delay; after a full round of successful tasks the limit grows by one
+ * again, up to the maximum (additive increase, multiplicative decrease).
+ */
+
+export interface AdaptivePool {
+  /** Runs the task once a slot is free and no throttling pause is active. */
+  run<T>(task: () => Promise<T>): Promise<T>;
+  /** Reports a throttled request: shrinks the limit and pauses new starts for delayMs. */
+  throttle(delayMs: number): void;
+  /** Current concurrency limit */
+  readonly limit: number;
+}
+
+export interface AdaptivePoolOptions {
+  initialConcurrency: number;
+  maxConcurrency: number;
+  minConcurrency?: number;
+}
+
+export function createAdaptivePool({
+  initialConcurrency,
+  maxConcurrency,
+  minConcurrency = 1,
+}: AdaptivePoolOptions): AdaptivePool {
+  let limit = initialConcurrency;
+  let active = 0;
+  let pausedUntil = 0;
+  let successesAtLimit = 0;
+  let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  const waiting: (() => void)[] = [];
+
+  const pump = () => {
+    const pause = pausedUntil - Date.now();
+    if (pause > 0) {
+      if (!resumeTimer) {
+        resumeTimer = setTimeout(() => {
+          resumeTimer = null;
+          pump();
+        }, pause);
+      }
+      return;
+    }
+    while (active < limit && waiting.length > 0) {
+      active++;
+      waiting.shift()!();
+    }
+  };
+
+  return {
+    get limit() {
+      return limit;
+    },
+
+    async run(task) {
+      await new Promise<void>((resolve) => {
+        waiting.push(resolve);
+        pump();
+      });
+
+      let succeeded = false;
+      try {
+        const result = await task();
+        succeeded = true;
+        return result;
+      } finally {
+        active--;
+        if (succeeded && ++successesAtLimit >= limit) {
+          successesAtLimit = 0;
+          limit = Math.min(maxConcurrency, limit + 1);
+        }
+        pump();
+      }
+    },
+
+    throttle(delayMs) {
+      limit = Math.max(minConcurrency, Math.floor(limit / 2));
+      successesAtLimit = 0;
+      pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+      pump();
+    },
+  };
+}
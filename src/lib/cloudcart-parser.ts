@@ -9,29 +9,29 @@
  * - category_properties (name attribute + value names)
  * - tabs (name + description content)
  * - variant option names and values
+ *
+ * Parsing is done with a streaming tokenizer so CDATA sections, entities,
+ * attributes and nested elements are handled correctly, and every value is
+ * written back at the exact offsets it was read from. Exposed to the rest
+ * of the app as `cloudcartAdapter` (see feed-adapter.ts).
  */
 
-export type TranslatableField =
-  | "title"
-  | "short_description"
-  | "description"
-  | "meta_title"
-  | "meta_description"
-  | "category"
-  | "category_property_name"
-  | "category_property_value"
-  | "tab_name"
-  | "tab_description"
-  | "option_name"
-  | "option_value";
+import { decodeEntities, tokenizeXml, validateXml, type XmlAttribute } from "./xml-tokenizer";
+import { writeXmlItems } from "./xml-records";
+import {
+  createItemCollector,
+  defaultFields,
+  type ExtractOptions,
+  type FeedAdapter,
+  type FeedField,
+  type TextEncoding,
+  type TextSpan,
+  type TranslatableField,
+  type TranslatableItem,
+} from "./feed-adapter";
 
 /** All available fields with labels for the UI */
-export const TRANSLATABLE_FIELDS: {
-  id: TranslatableField;
-  label: string;
-  group: string;
-  defaultOn: boolean;
-}[] = [
+export const TRANSLATABLE_FIELDS: FeedField[] = [
   { id: "title", label: "Product Title", group: "Core", defaultOn: false },
   { id: "short_description", label: "Short Description", group: "Core", defaultOn: true },
   { id: "description", label: "Description", group: "Core", defaultOn: true },
@@ -46,270 +46,330 @@ export const TRANSLATABLE_FIELDS: {
   { id: "option_value", label: "Variant Option Values", group: "Variants", defaultOn: true },
 ];
 
-export interface TranslatableItem {
-  /** Unique path identifying this item in the XML */
-  path: string;
-  /** The original text content */
-  text: string;
-  /** The field type for grouping/context */
-  field: TranslatableField;
-  /** Product ID for reference */
-  productId: string;
-  /** Product title for context */
-  productTitle: string;
-}
+/** Simple text fields that are direct children of <product> */
+const PRODUCT_TEXT_FIELDS: Record<string, TranslatableField> = {
+  title: "title",
+  short_description: "short_description",
+  description: "description",
+  meta_title: "meta_title",
+  meta_description: "meta_description",
+  category: "category",
+};
 
 /**
- * Detects whether text contains characters from the source language.
- * Currently detects Cyrillic (Bulgarian/Russian).
+ * Fields that may hold HTML. HTML written as child elements (neither CDATA
+ * nor escaped) is read as the element's raw inner XML.
  */
-export function containsSourceLanguage(
-  text: string,
-  sourceLang: string
-): boolean {
-  if (!text || text.trim().length === 0) return false;
-
-  switch (sourceLang) {
-    case "bg": // Bulgarian
-    case "ru": // Russian
-    case "sr": // Serbian
-    case "mk": // Macedonian
-    case "uk": // Ukrainian
-      return /[\u0400-\u04FF]/.test(text);
-    case "el": // Greek
-      return /[\u0370-\u03FF]/.test(text);
-    case "zh": // Chinese
-      return /[\u4E00-\u9FFF]/.test(text);
-    case "ja": // Japanese
-      return /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF]/.test(text);
-    case "ko": // Korean
-      return /[\uAC00-\uD7AF]/.test(text);
-    case "ar": // Arabic
-      return /[\u0600-\u06FF]/.test(text);
-    case "he": // Hebrew
-      return /[\u0590-\u05FF]/.test(text);
-    default:
-      // For Latin-based languages, check if it's NOT the target language
-      // This is less reliable so we default to true (translate everything)
-      return true;
-  }
+const HTML_FIELDS = new Set<TranslatableField>([
+  "short_description",
+  "description",
+  "meta_description",
+  "tab_description",
+]);
+
+interface ElementFrame {
+  name: string;
+  /** Offset right after the start tag */
+  contentStart: number;
+  /** Decoded character data directly inside the element */
+  text: string;
+  hasCdata: boolean;
+  hasChildren: boolean;
+}
+
+interface ProductScope {
+  /** Stack depth of the <product> element */
+  depth: number;
+  id: string | null;
+  title: string | null;
+  propertyIndex: number;
+  propertyValueIndex: number;
+  tabIndex: number;
+  optionIndex: number;
+  optionValueIndex: number;
 }
 
 /**
  * Extracts translatable text from the raw XML content.
  * Only extracts fields that are in the selectedFields set.
+ *
+ * Paths are positional (e.g. `product[42].option[0].value[3]`) so the same
+ * path points at the same node in the source feed and in its translation.
+ * Throws XmlParseError with line/column if the feed is not well-formed.
  */
 export function extractTranslatables(
   xmlContent: string,
   sourceLang: string,
-  selectedFields?: Set<TranslatableField>
+  selectedFields?: Set<TranslatableField>,
+  options: ExtractOptions = {}
 ): TranslatableItem[] {
-  const items: TranslatableItem[] = [];
-  const fields = selectedFields || new Set(TRANSLATABLE_FIELDS.filter((f) => f.defaultOn).map((f) => f.id));
+  // Items are held until </product>, when the product id is known
+  const collector = createItemCollector(
+    sourceLang,
+    selectedFields || defaultFields(TRANSLATABLE_FIELDS),
+    options
+  );
 
-  // Split into products
-  const productRegex = /<product>([\s\S]*?)<\/product>/g;
-  let productMatch;
+  validateXml(xmlContent);
+
+  const stack: ElementFrame[] = [];
+  let product: ProductScope | null = null;
   let productIndex = 0;
 
-  while ((productMatch = productRegex.exec(xmlContent)) !== null) {
-    const productXml = productMatch[1];
-
-    // Extract product ID and title
-    const idMatch = productXml.match(/<id>([^<]*)<\/id>/);
-    const titleMatch = productXml.match(/<title>([^<]*)<\/title>/);
-    const productId = idMatch ? idMatch[1] : `unknown-${productIndex}`;
-    const productTitle = titleMatch ? titleMatch[1] : "Untitled";
-
-    // Helper to extract and push a simple tag field
-    const extractTag = (
-      tag: string,
-      field: TranslatableField,
-      allowHtml = false
-    ) => {
-      if (!fields.has(field)) return;
-      const regex = allowHtml
-        ? new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`)
-        : new RegExp(`<${tag}>([^<]*)</${tag}>`);
-      const match = productXml.match(regex);
-      if (match && match[1].trim() && containsSourceLanguage(match[1], sourceLang)) {
-        items.push({
-          path: `product[${productId}].${field}`,
-          text: match[1],
-          field,
-          productId,
-          productTitle,
-        });
-      }
-    };
-
-    // Core fields
-    extractTag("title", "title");
-    extractTag("short_description", "short_description", true);
-    extractTag("description", "description", true);
-    extractTag("meta_title", "meta_title");
-    extractTag("meta_description", "meta_description", true);
-    extractTag("category", "category");
-
-    // category_properties
-    if (fields.has("category_property_name") || fields.has("category_property_value")) {
-      const catPropRegex =
-        /<category_property\s+name="([^"]*)">\s*<values>([\s\S]*?)<\/values>\s*<\/category_property>/g;
-      let catPropMatch;
-      while ((catPropMatch = catPropRegex.exec(productXml)) !== null) {
-        const propName = catPropMatch[1];
-        const valuesBlock = catPropMatch[2];
-
-        if (fields.has("category_property_name") && containsSourceLanguage(propName, sourceLang)) {
-          items.push({
-            path: `product[${productId}].category_property[${propName}].name`,
-            text: propName,
-            field: "category_property_name",
-            productId,
-            productTitle,
-          });
+  const inside = (name: string) =>
+    product !== null && stack.slice(product.depth + 1).some((f) => f.name === name);
+
+  const collect = (
+    path: string,
+    text: string,
+    field: TranslatableField,
+    span: TextSpan,
+    encoding: TextEncoding
+  ) => {
+    if (product) collector.add(path, text, field, span, encoding);
+  };
+
+  /** The path and field of a closed element inside a product, if it is a text field */
+  const fieldOf = (frame: ElementFrame): [string, TranslatableField] | null => {
+    if (!product) return null;
+    const parent = stack[stack.length - 1]?.name;
+
+    if (stack.length === product.depth + 1) {
+      const field = PRODUCT_TEXT_FIELDS[frame.name];
+      return field ? [field, field] : null;
+    }
+    if (parent === "tab" && frame.name === "name") {
+      return [`tab[${product.tabIndex}].name`, "tab_name"];
+    }
+    if (parent === "tab" && frame.name === "description") {
+      return [`tab[${product.tabIndex}].description`, "tab_description"];
+    }
+    if (frame.name === "name" && inside("category_property") && inside("values")) {
+      return [
+        `category_property[${product.propertyIndex}].value[${product.propertyValueIndex}]`,
+        "category_property_value",
+      ];
+    }
+    if (frame.name === "value" && inside("option") && inside("values")) {
+      return [`option[${product.optionIndex}].value[${product.optionValueIndex}]`, "option_value"];
+    }
+    return null;
+  };
+
+  const closeElement = (frame: ElementFrame, contentEnd: number) => {
+    if (!product) return;
+
+    const span = { start: frame.contentStart, end: contentEnd };
+    if (!frame.hasChildren && stack.length === product.depth + 1) {
+      if (frame.name === "id") product.id = frame.text.trim();
+      if (frame.name === "title") product.title = frame.text;
+    }
+
+    const target = fieldOf(frame);
+    if (!target) return;
+    const [path, field] = target;
+
+    if (!frame.hasChildren) {
+      collect(path, frame.text, field, span, frame.hasCdata ? "cdata" : "text");
+    } else if (HTML_FIELDS.has(field)) {
+      collect(path, xmlContent.slice(span.start, span.end), field, span, "raw");
+    }
+    // Other elements with child elements are containers, not text fields
+  };
+
+  const openElement = (name: string, attributes: XmlAttribute[]) => {
+    if (!product) return;
+
+    const nameAttr = attributes.find((a) => a.name === "name");
+    const attrSpan = nameAttr && { start: nameAttr.valueStart, end: nameAttr.valueEnd };
+
+    switch (name) {
+      case "category_property":
+        product.propertyIndex++;
+        product.propertyValueIndex = -1;
+        if (nameAttr) {
+          collect(
+            `category_property[${product.propertyIndex}].name`,
+            nameAttr.value,
+            "category_property_name",
+            attrSpan!,
+            "attribute"
+          );
         }
+        break;
+      case "option":
+        product.optionIndex++;
+        product.optionValueIndex = -1;
+        if (nameAttr) {
+          collect(`option[${product.optionIndex}].name`, nameAttr.value, "option_name", attrSpan!, "attribute");
+        }
+        break;
+      case "tab":
+        product.tabIndex++;
+        break;
+      case "name":
+        if (inside("category_property") && inside("values")) product.propertyValueIndex++;
+        break;
+      case "value":
+        if (inside("option") && inside("values")) product.optionValueIndex++;
+        break;
+    }
+  };
+
+  for (const token of tokenizeXml(xmlContent)) {
+    const top = stack[stack.length - 1];
+
+    switch (token.type) {
+      case "open": {
+        if (top) top.hasChildren = true;
 
-        if (fields.has("category_property_value")) {
-          const valueNameRegex = /<name>([^<]*)<\/name>/g;
-          let valueMatch;
-          while ((valueMatch = valueNameRegex.exec(valuesBlock)) !== null) {
-            if (containsSourceLanguage(valueMatch[1], sourceLang)) {
-              items.push({
-                path: `product[${productId}].category_property[${propName}].value[${valueMatch[1]}]`,
-                text: valueMatch[1],
-                field: "category_property_value",
-                productId,
-                productTitle,
-              });
-            }
+        if (token.name === "product" && !product) {
+          product = {
+            depth: stack.length,
+            id: null,
+            title: null,
+            propertyIndex: -1,
+            propertyValueIndex: -1,
+            tabIndex: -1,
+            optionIndex: -1,
+            optionValueIndex: -1,
+          };
+        } else {
+          openElement(token.name, token.attributes);
+        }
+
+        const frame: ElementFrame = {
+          name: token.name,
+          contentStart: token.end,
+          text: "",
+          hasCdata: false,
+          hasChildren: false,
+        };
+        if (token.selfClosing) {
+          if (product && product.depth === stack.length && token.name === "product") {
+            product = null;
+            productIndex++;
           }
+        } else {
+          stack.push(frame);
         }
+        break;
       }
-    }
 
-    // tabs
-    if (fields.has("tab_name") || fields.has("tab_description")) {
-      const tabRegex =
-        /<tab>\s*<name>([\s\S]*?)<\/name>\s*<description>([\s\S]*?)<\/description>\s*<\/tab>/g;
-      let tabMatch;
-      while ((tabMatch = tabRegex.exec(productXml)) !== null) {
-        const tabName = tabMatch[1];
-        const tabDesc = tabMatch[2];
-
-        if (fields.has("tab_name") && containsSourceLanguage(tabName, sourceLang)) {
-          items.push({
-            path: `product[${productId}].tab[${tabName}].name`,
-            text: tabName,
-            field: "tab_name",
-            productId,
-            productTitle,
-          });
+      case "text":
+        if (top) top.text += decodeEntities(token.raw);
+        break;
+
+      case "cdata":
+        if (top) {
+          top.text += token.value;
+          top.hasCdata = true;
         }
+        break;
 
-        if (fields.has("tab_description") && containsSourceLanguage(tabDesc, sourceLang)) {
-          items.push({
-            path: `product[${productId}].tab[${tabName}].description`,
-            text: tabDesc,
-            field: "tab_description",
-            productId,
-            productTitle,
-          });
+      case "close": {
+        const frame = stack.pop()!;
+        if (product && stack.length === product.depth) {
+          // Closing </product>: the id and title are known now
+          collector.endProduct(product.id || `unknown-${productIndex}`, product.title ?? "Untitled");
+          product = null;
+          productIndex++;
+        } else {
+          closeElement(frame, token.start);
         }
+        break;
       }
     }
+  }
 
-    // variant options
-    if (fields.has("option_name") || fields.has("option_value")) {
-      const optionRegex =
-        /<option\s+name="([^"]*)">\s*<values>([\s\S]*?)<\/values>\s*<\/option>/g;
-      let optionMatch;
-      while ((optionMatch = optionRegex.exec(productXml)) !== null) {
-        const optName = optionMatch[1];
-        const optValues = optionMatch[2];
-
-        if (fields.has("option_name") && containsSourceLanguage(optName, sourceLang)) {
-          items.push({
-            path: `product[${productId}].option[${optName}].name`,
-            text: optName,
-            field: "option_name",
-            productId,
-            productTitle,
-          });
-        }
+  return collector.items;
+}
+
+/**
+ * Returns the id of every <product> in document order, taken from its
+ * direct <id> child (`unknown-<n>` without one, as in item paths).
+ */
+export function listProductIds(xmlContent: string): string[] {
+  const ids: string[] = [];
+  let depth = 0;
+  let productDepth = -1;
+  let productId: string | null = null;
+  let idText: string | null = null;
 
-        if (fields.has("option_value")) {
-          const optValRegex = /<value>([^<]*)<\/value>/g;
-          let optValMatch;
-          while ((optValMatch = optValRegex.exec(optValues)) !== null) {
-            if (containsSourceLanguage(optValMatch[1], sourceLang)) {
-              items.push({
-                path: `product[${productId}].option[${optName}].value[${optValMatch[1]}]`,
-                text: optValMatch[1],
-                field: "option_value",
-                productId,
-                productTitle,
-              });
-            }
+  for (const token of tokenizeXml(xmlContent)) {
+    switch (token.type) {
+      case "open":
+        if (token.name === "product" && productDepth === -1) {
+          if (token.selfClosing) {
+            ids.push(`unknown-${ids.length}`);
+            break;
           }
+          productDepth = depth;
+          productId = null;
+        } else if (token.name === "id" && depth === productDepth + 1 && !token.selfClosing) {
+          idText = "";
         }
-      }
+        if (!token.selfClosing) depth++;
+        break;
+      case "text":
+        if (idText !== null) idText += decodeEntities(token.raw);
+        break;
+      case "cdata":
+        if (idText !== null) idText += token.value;
+        break;
+      case "close":
+        depth--;
+        if (idText !== null) {
+          productId = idText.trim();
+          idText = null;
+        } else if (depth === productDepth) {
+          ids.push(productId || `unknown-${ids.length}`);
+          productDepth = -1;
+        }
+        break;
     }
-
-    productIndex++;
   }
 
-  return items;
+  return ids;
 }
 
 /**
- * Applies translations back to the XML content via string replacement.
- * Each translation is a map of original text -> translated text.
- * We replace in context (within the specific XML tags) to avoid
- * accidental replacements of text that appears in other fields.
+ * Applies translations back to the XML content at the exact locations
+ * the items were extracted from. Each item's span is replaced with the
+ * encoded translation of its text; everything outside those spans
+ * (unselected fields, SKUs, URLs, markup) is copied through byte-for-byte.
  */
 export function applyTranslations(
   xmlContent: string,
+  items: TranslatableItem[],
   translations: Map<string, string>
 ): string {
-  let result = xmlContent;
-
-  // Sort by length (longest first) to avoid partial replacements
-  const sortedEntries = [...translations.entries()].sort(
-    (a, b) => b[0].length - a[0].length
-  );
-
-  for (const [original, translated] of sortedEntries) {
-    if (original === translated) continue;
-    // Replace all occurrences
-    result = result.split(original).join(translated);
-  }
-
-  return result;
+  return writeXmlItems(xmlContent, items, (item) => translations.get(item.text));
 }
 
 /**
- * Deduplicates translatable items by text content.
- * Returns unique texts with their field types for context.
+ * Like applyTranslations, but keyed by item path, so one occurrence of a
+ * text can be changed without touching identical texts elsewhere.
  */
-export function deduplicateItems(
-  items: TranslatableItem[]
-): { text: string; fields: string[]; count: number }[] {
-  const map = new Map<string, { fields: Set<string>; count: number }>();
-
-  for (const item of items) {
-    const existing = map.get(item.text);
-    if (existing) {
-      existing.fields.add(item.field);
-      existing.count++;
-    } else {
-      map.set(item.text, { fields: new Set([item.field]), count: 1 });
-    }
-  }
-
-  return [...map.entries()].map(([text, { fields, count }]) => ({
-    text,
-    fields: [...fields],
-    count,
-  }));
+export function applyItemTranslations(
+  xmlContent: string,
+  items: TranslatableItem[],
+  translationsByPath: Map<string, string>
+): string {
+  return writeXmlItems(xmlContent, items, (item) => translationsByPath.get(item.path));
 }
+
+export const cloudcartAdapter: FeedAdapter = {
+  id: "cloudcart",
+  name: "CloudCart XML",
+  fileExtension: "xml",
+  mimeType: "application/xml",
+  fields: TRANSLATABLE_FIELDS,
+  // The fallback for XML that no other adapter claims
+  detect: (content) => content.trimStart().startsWith("<"),
+  validate: validateXml,
+  extract: extractTranslatables,
+  applyTranslations,
+  applyItemTranslations,
+  listProductIds,
+};
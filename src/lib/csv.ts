@@ -0,0 +1,99 @@
+/**
+ * CSV Reading & Writing
+ *
+ * RFC 4180 style: comma separated, fields optionally wrapped in double
+ * quotes, quotes inside quoted fields doubled, newlines allowed inside
+ * quoted fields. Each parsed cell keeps the offsets of its raw text so a
+ * value can be rewritten in place.
+ */
+
+export interface CsvCell {
+  /** Unquoted value */
+  value: string;
+  /** Offsets of the raw cell, including quotes if any */
+  start: number;
+  end: number;
+  quoted: boolean;
+}
+
+/**
+ * Parses CSV text into rows of cells. A leading byte order mark is
+ * skipped; blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = ","): CsvCell[][] {
+  const rows: CsvCell[][] = [];
+  let row: CsvCell[] = [];
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    if (!(row.length === 1 && row[0].value === "" && !row[0].quoted)) rows.push(row);
+    row = [];
+  };
+
+  while (pos <= text.length) {
+    const start = pos;
+    let value: string;
+    let quoted = false;
+
+    if (text[pos] === '"') {
+      quoted = true;
+      value = "";
+      pos++;
+      for (;;) {
+        const quote = text.indexOf('"', pos);
+        if (quote === -1) {
+          // Unterminated quote: take the rest of the file
+          value += text.slice(pos);
+          pos = text.length;
+          break;
+        }
+        value += text.slice(pos, quote);
+        if (text[quote + 1] === '"') {
+          value += '"';
+          pos = quote + 2;
+        } else {
+          pos = quote + 1;
+          break;
+        }
+      }
+      // Anything between the closing quote and the delimiter is kept as-is
+      while (pos < text.length && text[pos] !== delimiter && text[pos] !== "\n" && text[pos] !== "\r") {
+        value += text[pos++];
+      }
+    } else {
+      let end = pos;
+      while (end < text.length && text[end] !== delimiter && text[end] !== "\n" && text[end] !== "\r") {
+        end++;
+      }
+      value = text.slice(pos, end);
+      pos = end;
+    }
+
+    row.push({ value, start, end: pos, quoted });
+
+    if (pos >= text.length) {
+      endRow();
+      break;
+    }
+    if (text[pos] === delimiter) {
+      pos++;
+      continue;
+    }
+    // Line break: \r\n, \n or \r
+    pos += text[pos] === "\r" && text[pos + 1] === "\n" ? 2 : 1;
+    endRow();
+  }
+
+  return rows;
+}
+
+/** Quotes a value if it contains a delimiter, quote or line break. */
+export function formatCsvValue(value: string, delimiter = ","): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) || /^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+export function formatCsvRow(values: string[], delimiter = ","): string {
+  return values.map((v) => formatCsvValue(v, delimiter)).join(delimiter);
+}
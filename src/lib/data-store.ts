@@ -0,0 +1,38 @@
+/**
+ * Local JSON File Store
+ *
+ * Small helpers for persisting JSON documents on the server's disk.
+ * Files live in FEEDTRANSLATOR_DATA_DIR (default: ./.data).
+ */
+
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+export function dataFilePath(name: string): string {
+  const dir = process.env.FEEDTRANSLATOR_DATA_DIR || path.join(process.cwd(), ".data");
+  return path.join(dir, name);
+}
+
+/**
+ * Reads a JSON document, returning the fallback if the file does not exist yet.
+ */
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(dataFilePath(name), "utf8")) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw err;
+  }
+}
+
+/**
+ * Writes a JSON document atomically (write to a temp file, then rename),
+ * so a crash mid-write never leaves a truncated file behind.
+ */
+export async function writeJsonFile(name: string, data: unknown): Promise<void> {
+  const file = dataFilePath(name);
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(tmp, JSON.stringify(data), "utf8");
+  await rename(tmp, file);
+}
@@ -0,0 +1,335 @@
+/**
+ * Feed Adapters
+ *
+ * The interface every feed format implements (CloudCart XML, Google
+ * Merchant, Shopify CSV, WooCommerce, JSON), plus what the formats share: the
+ * item model, the per-value checks applied during extraction, and writing
+ * translations back by span.
+ */
+
+import { isFullyProtected } from "./placeholders";
+import {
+  DEFAULT_MIN_CONFIDENCE,
+  findSourceSegments,
+  sourceLanguageMismatch,
+} from "./language-detection";
+
+export type FeedFormat = "cloudcart" | "google-merchant" | "shopify-csv" | "woocommerce" | "json";
+
+/** Field types across all formats; each format uses a subset */
+export const TRANSLATABLE_FIELD_IDS = [
+  "title",
+  "short_description",
+  "description",
+  "meta_title",
+  "meta_description",
+  "category",
+  "category_property_name",
+  "category_property_value",
+  "tab_name",
+  "tab_description",
+  "option_name",
+  "option_value",
+  "product_type",
+  "tags",
+  "color",
+  "material",
+  "pattern",
+  "size",
+  "attribute_value",
+  "custom_label",
+  "product_highlight",
+  "product_detail_section",
+  "product_detail_name",
+  "product_detail_value",
+  "image_alt",
+] as const;
+
+export type TranslatableField = (typeof TRANSLATABLE_FIELD_IDS)[number];
+
+export function isTranslatableField(value: string): value is TranslatableField {
+  return (TRANSLATABLE_FIELD_IDS as readonly string[]).includes(value);
+}
+
+/** A translatable field of a format, with its label for the UI */
+export interface FeedField {
+  id: TranslatableField;
+  label: string;
+  group: string;
+  defaultOn: boolean;
+}
+
+export interface TranslatableItem {
+  /** Unique path identifying this item in the feed */
+  path: string;
+  /** The original text content, with entities, escapes and quotes decoded and CDATA unwrapped */
+  text: string;
+  /** The field type for grouping/context */
+  field: TranslatableField;
+  /** Product ID for reference */
+  productId: string;
+  /** Product title for context */
+  productTitle: string;
+  /** Character range of the raw value within the feed, where the translation is written back */
+  span: TextSpan;
+  /** How the value is stored in the feed, so the translation is encoded the same way */
+  encoding: TextEncoding;
+  /**
+   * "mixed" when some sentences are already in another language (values
+   * entirely in another language are not extracted). Unset when language
+   * detection is off.
+   */
+  languageMix?: "source" | "mixed";
+  /** For mixed values: ranges of `text` in the source language; only these are translated */
+  sourceSegments?: TextSpan[];
+}
+
+/** "raw" is inner XML (HTML written as child elements), written back as it is */
+export type TextEncoding = "text" | "cdata" | "attribute" | "raw" | "csv" | "json";
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface ExtractOptions {
+  /**
+   * Skip values that are not in the source language (default true).
+   * Turn off to read every value, e.g. from an already translated feed.
+   */
+  detectLanguage?: boolean;
+  /**
+   * Do-not-translate terms: values made up only of these (plus markup,
+   * numbers and codes) are skipped.
+   */
+  protectedTerms?: string[];
+  /**
+   * For Latin-script source languages: how confident (0-1) the language
+   * identifier must be that a value is in another language to skip it.
+   */
+  minLanguageConfidence?: number;
+  /** Called for each value skipped as not in the source language */
+  onSkip?: (item: SkippedItem) => void;
+}
+
+export interface SkippedItem {
+  path: string;
+  text: string;
+  field: TranslatableField;
+  productId: string;
+  productTitle: string;
+  /** The language the value was identified as; null when it lacks the source script */
+  detectedLanguage: string | null;
+  confidence: number;
+}
+
+export interface FeedAdapter {
+  id: FeedFormat;
+  name: string;
+  /** Extension and MIME type of the translated file */
+  fileExtension: string;
+  mimeType: string;
+  /** All translatable fields of the format */
+  fields: FeedField[];
+  /** Whether the content looks like this format */
+  detect(content: string): boolean;
+  /**
+   * Throws XmlParseError or FeedFormatError if the content cannot be read
+   * as this format.
+   */
+  validate(content: string): void;
+  /**
+   * Extracts the values of the selected fields (the format's default
+   * fields if omitted). Paths are positional, so the same path points at
+   * the same value in a feed and in its translation.
+   */
+  extract(
+    content: string,
+    sourceLang: string,
+    selectedFields?: Set<TranslatableField>,
+    options?: ExtractOptions
+  ): TranslatableItem[];
+  /** Writes translations (original text -> translation) back at each item's span */
+  applyTranslations(content: string, items: TranslatableItem[], translations: Map<string, string>): string;
+  /** Like applyTranslations, but keyed by item path */
+  applyItemTranslations(
+    content: string,
+    items: TranslatableItem[],
+    translationsByPath: Map<string, string>
+  ): string;
+  /** Product ids in document order */
+  listProductIds(content: string): string[];
+}
+
+/** A feed that is not well-formed in a non-XML format */
+export class FeedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedFormatError";
+  }
+}
+
+/** The fields of a format that are selected unless the user changes them */
+export function defaultFields(fields: FeedField[]): Set<TranslatableField> {
+  return new Set(fields.filter((f) => f.defaultOn).map((f) => f.id));
+}
+
+/**
+ * Gathers the items of one product at a time, applying the extract
+ * options to every value: unselected fields, blank values, values not in
+ * the source language and fully protected values are left out.
+ */
+export interface ItemCollector {
+  /** Adds a value of the current product; `path` is relative to the product */
+  add(path: string, text: string, field: TranslatableField, span: TextSpan, encoding: TextEncoding): void;
+  /**
+   * Ends the current product, now that its id and title are known; item
+   * paths get the prefix `product[<id>]` unless another is given.
+   */
+  endProduct(productId: string, productTitle: string, pathPrefix?: string): void;
+  /** Drops the current product's values, e.g. a record that is not a product */
+  discardProduct(): void;
+  /** Items of all ended products */
+  items: TranslatableItem[];
+}
+
+export function createItemCollector(
+  sourceLang: string,
+  selectedFields: Set<TranslatableField>,
+  options: ExtractOptions = {}
+): ItemCollector {
+  const {
+    detectLanguage = true,
+    protectedTerms = [],
+    minLanguageConfidence = DEFAULT_MIN_CONFIDENCE,
+    onSkip,
+  } = options;
+  const items: TranslatableItem[] = [];
+  let pending: TranslatableItem[] = [];
+  let skipped: SkippedItem[] = [];
+
+  return {
+    items,
+
+    add(path, text, field, span, encoding) {
+      if (!selectedFields.has(field)) return;
+      if (!text.trim()) return;
+
+      if (detectLanguage) {
+        const mismatch = sourceLanguageMismatch(text, sourceLang, minLanguageConfidence);
+        if (mismatch) {
+          // Values without any letters (sizes, codes) are not worth reporting
+          if (/\p{L}/u.test(text)) {
+            skipped.push({
+              path,
+              text,
+              field,
+              productId: "",
+              productTitle: "",
+              detectedLanguage: mismatch.language,
+              confidence: mismatch.confidence,
+            });
+          }
+          return;
+        }
+      }
+      if (isFullyProtected(text, protectedTerms)) return;
+
+      const item: TranslatableItem = { path, text, field, productId: "", productTitle: "", span, encoding };
+      if (detectLanguage) {
+        const sourceSegments = findSourceSegments(text, sourceLang, minLanguageConfidence);
+        item.languageMix = sourceSegments ? "mixed" : "source";
+        if (sourceSegments) item.sourceSegments = sourceSegments;
+      }
+      pending.push(item);
+    },
+
+    endProduct(productId, productTitle, pathPrefix = `product[${productId}]`) {
+      for (const item of pending) {
+        items.push({ ...item, path: `${pathPrefix}.${item.path}`, productId, productTitle });
+      }
+      for (const item of skipped) {
+        onSkip?.({ ...item, path: `${pathPrefix}.${item.path}`, productId, productTitle });
+      }
+      pending = [];
+      skipped = [];
+    },
+
+    discardProduct() {
+      pending = [];
+      skipped = [];
+    },
+  };
+}
+
+/**
+ * Replaces the span of every item that `translationFor` returns a new
+ * value for, encoded by `encode`; everything else is copied through
+ * byte-for-byte.
+ */
+export function writeSpans(
+  content: string,
+  items: TranslatableItem[],
+  translationFor: (item: TranslatableItem) => string | undefined,
+  encode: (item: TranslatableItem, translated: string) => string
+): string {
+  const edits = items
+    .map((item) => ({ item, translated: translationFor(item) }))
+    .filter(({ item, translated }) => translated !== undefined && translated !== item.text)
+    .sort((a, b) => a.item.span.start - b.item.span.start);
+
+  let result = "";
+  let cursor = 0;
+
+  for (const { item, translated } of edits) {
+    // Guard against the same span being listed twice
+    if (item.span.start < cursor) continue;
+    result += content.slice(cursor, item.span.start);
+    result += encode(item, translated!);
+    cursor = item.span.end;
+  }
+
+  return result + content.slice(cursor);
+}
+
+/**
+ * Deduplicates translatable items by text content.
+ * Returns unique texts with their field types and the title of the first
+ * product they appear in, for context, plus the source-language ranges of
+ * mixed values.
+ */
+export function deduplicateItems(items: TranslatableItem[]): {
+  text: string;
+  fields: string[];
+  count: number;
+  productTitle: string;
+  sourceSegments?: TextSpan[];
+}[] {
+  const map = new Map<
+    string,
+    { fields: Set<string>; count: number; productTitle: string; sourceSegments?: TextSpan[] }
+  >();
+
+  for (const item of items) {
+    const existing = map.get(item.text);
+    if (existing) {
+      existing.fields.add(item.field);
+      existing.count++;
+    } else {
+      map.set(item.text, {
+        fields: new Set([item.field]),
+        count: 1,
+        productTitle: item.productTitle,
+        sourceSegments: item.sourceSegments,
+      });
+    }
+  }
+
+  return [...map.entries()].map(([text, { fields, count, productTitle, sourceSegments }]) => ({
+    text,
+    fields: [...fields],
+    count,
+    productTitle,
+    ...(sourceSegments && { sourceSegments }),
+  }));
+}
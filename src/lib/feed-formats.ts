@@ -0,0 +1,52 @@
+/**
+ * Feed Format Registry
+ *
+ * The available feed adapters and auto-detection of an uploaded file's
+ * format. Kept free of Node APIs so the page can detect the format and
+ * show its fields before uploading.
+ */
+
+import { cloudcartAdapter } from "./cloudcart-parser";
+import { googleMerchantAdapter } from "./google-merchant-parser";
+import { createJsonAdapter, DEFAULT_JSON_MAPPING, type JsonFeedMapping } from "./json-feed-parser";
+import { shopifyCsvAdapter } from "./shopify-csv-parser";
+import { woocommerceAdapter } from "./woocommerce-parser";
+import type { FeedAdapter } from "./feed-adapter";
+
+/** In detection order: the specific formats first, CloudCart as the fallback for XML */
+export const FEED_ADAPTERS: FeedAdapter[] = [
+  woocommerceAdapter,
+  googleMerchantAdapter,
+  shopifyCsvAdapter,
+  createJsonAdapter(DEFAULT_JSON_MAPPING),
+  cloudcartAdapter,
+];
+
+export function getFeedAdapter(id: string): FeedAdapter | undefined {
+  return FEED_ADAPTERS.find((adapter) => adapter.id === id);
+}
+
+/**
+ * Picks the adapter for a feed from its content; undefined if no format
+ * matches (e.g. a CSV that is not a Shopify export). JSON feeds are read
+ * with `jsonMapping`, or the default mapping without one.
+ */
+export function detectFeedAdapter(
+  content: string,
+  jsonMapping?: JsonFeedMapping
+): FeedAdapter | undefined {
+  const adapter = FEED_ADAPTERS.find((a) => a.detect(content));
+  return adapter?.id === "json" && jsonMapping ? createJsonAdapter(jsonMapping) : adapter;
+}
+
+/**
+ * The UI label of a field; CloudCart's labels win for fields that several
+ * formats share.
+ */
+export function fieldLabel(field: string): string {
+  for (const adapter of [cloudcartAdapter, ...FEED_ADAPTERS]) {
+    const found = adapter.fields.find((f) => f.id === field);
+    if (found) return found.label;
+  }
+  return field;
+}
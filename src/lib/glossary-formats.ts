@@ -0,0 +1,153 @@
+/**
+ * Glossary Import & Export
+ *
+ * Converts glossaries to and from CSV (two columns: source, target, with
+ * an optional header row) and TBX. Export writes TBX-Basic (<martif>);
+ * import also reads TBX v3 (<tbx> with conceptEntry/langSec/termSec).
+ */
+
+import { formatCsvRow, parseCsv } from "./csv";
+import {
+  decodeEntities,
+  escapeAttribute,
+  escapeText,
+  tokenizeXml,
+  validateXml,
+} from "./xml-tokenizer";
+
+export type GlossaryFormat = "csv" | "tbx";
+
+export function glossaryToCsv(
+  terms: Record<string, string>,
+  sourceLang: string,
+  targetLang: string
+): string {
+  const rows = [formatCsvRow([sourceLang, targetLang])];
+  for (const [source, target] of Object.entries(terms)) {
+    rows.push(formatCsvRow([source, target]));
+  }
+  return rows.join("\r\n") + "\r\n";
+}
+
+/**
+ * Reads a two-column CSV. A first row naming the languages (or "source",
+ * "target") is treated as a header; semicolon-separated files are accepted.
+ */
+export function parseGlossaryCsv(
+  text: string,
+  sourceLang: string,
+  targetLang: string
+): Record<string, string> {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+  const rows = parseCsv(text, delimiter).map((row) => row.map((cell) => cell.value.trim()));
+
+  const header = rows[0]?.map((v) => v.toLowerCase());
+  if (
+    header &&
+    ((header[0] === sourceLang && header[1] === targetLang) ||
+      (header[0] === "source" && header[1] === "target"))
+  ) {
+    rows.shift();
+  }
+
+  const terms: Record<string, string> = {};
+  for (const [source, target] of rows) {
+    if (source && target) terms[source] = target;
+  }
+  return terms;
+}
+
+export function glossaryToTbx(
+  terms: Record<string, string>,
+  sourceLang: string,
+  targetLang: string
+): string {
+  const entries = Object.entries(terms)
+    .map(
+      ([source, target], i) => `      <termEntry id="t${i + 1}">
+        <langSet xml:lang="${escapeAttribute(sourceLang, '"')}"><tig><term>${escapeText(source)}</term></tig></langSet>
+        <langSet xml:lang="${escapeAttribute(targetLang, '"')}"><tig><term>${escapeText(target)}</term></tig></langSet>
+      </termEntry>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX-Basic" xml:lang="${escapeAttribute(sourceLang, '"')}">
+  <martifHeader>
+    <fileDesc><sourceDesc><p>CloudCart Feed Translator glossary</p></sourceDesc></fileDesc>
+  </martifHeader>
+  <text>
+    <body>
+${entries}
+    </body>
+  </text>
+</martif>
+`;
+}
+
+/** "en-GB" matches "en" */
+function matchesLang(tag: string | undefined, lang: string): boolean {
+  if (!tag) return false;
+  const lower = tag.toLowerCase();
+  return lower === lang || lower.startsWith(`${lang}-`) || lower.startsWith(`${lang}_`);
+}
+
+/**
+ * Reads the first term of each language per concept entry and returns the
+ * source -> target pairs. Entries missing either language are skipped.
+ * Throws XmlParseError for malformed files.
+ */
+export function parseGlossaryTbx(
+  text: string,
+  sourceLang: string,
+  targetLang: string
+): Record<string, string> {
+  validateXml(text);
+
+  const terms: Record<string, string> = {};
+  let entry: Record<string, string> | null = null;
+  let lang: string | undefined;
+  let termText: string | null = null;
+
+  for (const token of tokenizeXml(text)) {
+    switch (token.type) {
+      case "open":
+        if (token.name === "termEntry" || token.name === "conceptEntry") entry = {};
+        else if (token.name === "langSet" || token.name === "langSec") {
+          lang = token.attributes.find((a) => a.name === "xml:lang")?.value;
+        } else if (token.name === "term" && !token.selfClosing) termText = "";
+        break;
+      case "text":
+        if (termText !== null) termText += decodeEntities(token.raw);
+        break;
+      case "cdata":
+        if (termText !== null) termText += token.value;
+        break;
+      case "close":
+        if (token.name === "term") {
+          const value = termText?.trim();
+          if (value && entry && lang && !(lang in entry)) entry[lang] = value;
+          termText = null;
+        } else if (token.name === "termEntry" || token.name === "conceptEntry") {
+          const langs = Object.keys(entry ?? {});
+          const source = langs.find((l) => matchesLang(l, sourceLang));
+          const target = langs.find((l) => matchesLang(l, targetLang));
+          if (entry && source && target) terms[entry[source]] = entry[target];
+          entry = null;
+        }
+        break;
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Picks the format from the file name, falling back to sniffing the content.
+ */
+export function detectGlossaryFormat(fileName: string, content: string): GlossaryFormat {
+  if (/\.(tbx|xml)$/i.test(fileName)) return "tbx";
+  if (/\.(csv|tsv|txt)$/i.test(fileName)) return "csv";
+  return content.trimStart().startsWith("<") ? "tbx" : "csv";
+}
@@ -0,0 +1,113 @@
+/**
+ * Glossary Matching & Verification
+ *
+ * Finds glossary terms inside longer texts, so each text can be sent with
+ * the target terms it must use, and checks afterwards that the
+ * translation actually contains them.
+ *
+ * For Bulgarian sources matching is inflection-aware: each word of a term
+ * is reduced to a stem and may be followed by one of the known endings, so
+ * "Гривна" also matches "гривни" and "гривната", and "Диаманти" matches
+ * "диамантите". Words with short stems ("Маса", "Стол") are matched as
+ * they are, since any ending would also match unrelated words ("Масло").
+ */
+
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+/** Languages whose words are matched by stem + ending */
+const INFLECTED_LANGUAGES = new Set(["bg", "mk"]);
+
+/**
+ * Endings stripped from glossary words to get the stem, longest first:
+ * definite articles (-ът, -ят, -та, -то, -те, -ите, -ата, -ото) and the
+ * vowel endings of gender and number.
+ */
+const BULGARIAN_ENDINGS = ["ите", "ата", "ото", "ът", "ят", "та", "то", "те", "и", "а", "я", "о", "е"];
+
+/** Endings allowed after a stem in the text: the above plus the plurals -ове/-еве */
+const INFLECTION_ENDINGS = ["овете", "евете", "ове", "еве", ...BULGARIAN_ENDINGS];
+
+const MIN_STEM_LENGTH = 3;
+/** Stems up to this length are matched as the whole word only */
+const MAX_EXACT_STEM_LENGTH = 4;
+
+const LETTER = "[\\p{L}\\p{N}]";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function stem(word: string): string {
+  const lower = word.toLowerCase();
+  for (const ending of BULGARIAN_ENDINGS) {
+    if (lower.endsWith(ending) && lower.length - ending.length >= MIN_STEM_LENGTH) {
+      return word.slice(0, word.length - ending.length);
+    }
+  }
+  return word;
+}
+
+function wordPattern(word: string, inflected: boolean): string {
+  // Words with digits ("18К") and words with short stems are matched as they are
+  if (!inflected || /\d/.test(word)) return escapeRegExp(word);
+  const base = stem(word);
+  if (base.length <= MAX_EXACT_STEM_LENGTH) return escapeRegExp(word);
+  return `${escapeRegExp(base)}(?:${INFLECTION_ENDINGS.join("|")})?`;
+}
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Builds the matcher for a term. `plural` lets the last word take an
+ * English plural ending, for checking target terms ("Ring" in "rings").
+ */
+function termPattern(term: string, inflected: boolean, plural = false): RegExp {
+  const key = `${inflected}|${plural}|${term}`;
+  let pattern = patternCache.get(key);
+  if (!pattern) {
+    const words = term.trim().split(/\s+/).map((w) => wordPattern(w, inflected));
+    const suffix = plural ? "(?:s|es)?" : "";
+    pattern = new RegExp(`(?<!${LETTER})${words.join("\\s+")}${suffix}(?!${LETTER})`, "iu");
+    patternCache.set(key, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Returns the glossary terms that occur in the text.
+ * When one matched term contains another (e.g. "18К розово злато" and
+ * "злато"), only the longer one is returned.
+ */
+export function findGlossaryTerms(
+  text: string,
+  glossary: Record<string, string>,
+  sourceLang: string
+): GlossaryTerm[] {
+  const inflected = INFLECTED_LANGUAGES.has(sourceLang);
+  const found = Object.entries(glossary)
+    .filter(([source]) => source.trim() && termPattern(source, inflected).test(text))
+    .map(([source, target]) => ({ source, target }));
+
+  return found.filter(
+    (term) =>
+      !found.some(
+        (other) =>
+          other !== term &&
+          other.source.length > term.source.length &&
+          termPattern(term.source, inflected).test(other.source)
+      )
+  );
+}
+
+/**
+ * Returns the target terms missing from a translation (case-insensitive,
+ * whole words, plural allowed).
+ */
+export function findMissingTerms(translation: string, terms: GlossaryTerm[]): string[] {
+  return terms
+    .filter((term) => !termPattern(term.target, false, true).test(translation))
+    .map((term) => term.target);
+}
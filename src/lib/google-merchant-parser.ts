@@ -0,0 +1,133 @@
+/**
+ * Google Merchant Center Feed Parser
+ *
+ * Reads product feeds in Google's RSS 2.0 (`<item>`) and Atom 1.0
+ * (`<entry>`) formats, with product attributes in the
+ * `http://base.google.com/ns/1.0` namespace (`g:`). Titles, descriptions,
+ * product types, the shopper-facing attributes (color, material, pattern,
+ * size), highlights, product details and custom labels can be translated;
+ * ids, links, prices and Google's own product category are left alone.
+ */
+
+import { validateXml } from "./xml-tokenizer";
+import { readXmlRecords, writeXmlItems, type XmlLeaf } from "./xml-records";
+import {
+  createItemCollector,
+  defaultFields,
+  type ExtractOptions,
+  type FeedAdapter,
+  type FeedField,
+  type TranslatableField,
+  type TranslatableItem,
+} from "./feed-adapter";
+
+export const GOOGLE_MERCHANT_FIELDS: FeedField[] = [
+  { id: "title", label: "Product Title", group: "Core", defaultOn: true },
+  { id: "description", label: "Description", group: "Core", defaultOn: true },
+  { id: "product_highlight", label: "Product Highlights", group: "Core", defaultOn: true },
+  { id: "product_type", label: "Product Type", group: "Taxonomy", defaultOn: true },
+  { id: "color", label: "Color", group: "Attributes", defaultOn: true },
+  { id: "material", label: "Material", group: "Attributes", defaultOn: true },
+  { id: "pattern", label: "Pattern", group: "Attributes", defaultOn: true },
+  { id: "size", label: "Size", group: "Attributes", defaultOn: false },
+  { id: "product_detail_section", label: "Product Detail Sections", group: "Product Details", defaultOn: true },
+  { id: "product_detail_name", label: "Product Detail Names", group: "Product Details", defaultOn: true },
+  { id: "product_detail_value", label: "Product Detail Values", group: "Product Details", defaultOn: true },
+  { id: "custom_label", label: "Custom Labels", group: "Campaigns", defaultOn: false },
+];
+
+const RECORD_NAMES = new Set(["item", "entry"]);
+
+/** Direct children of an item/entry; Atom uses `summary` for the description */
+const ITEM_FIELDS: Record<string, TranslatableField> = {
+  title: "title",
+  "g:title": "title",
+  description: "description",
+  "g:description": "description",
+  summary: "description",
+  "g:product_type": "product_type",
+  "g:color": "color",
+  "g:material": "material",
+  "g:pattern": "pattern",
+  "g:size": "size",
+  "g:product_highlight": "product_highlight",
+  "g:custom_label_0": "custom_label",
+  "g:custom_label_1": "custom_label",
+  "g:custom_label_2": "custom_label",
+  "g:custom_label_3": "custom_label",
+  "g:custom_label_4": "custom_label",
+};
+
+/** Children of `g:product_detail` */
+const DETAIL_FIELDS: Record<string, TranslatableField> = {
+  "g:section_name": "product_detail_section",
+  "g:attribute_name": "product_detail_name",
+  "g:attribute_value": "product_detail_value",
+};
+
+/** Attributes that may be given more than once per item */
+const REPEATED = new Set(["g:product_type", "g:product_highlight"]);
+
+const GOOGLE_NAMESPACE = /xmlns:g\s*=\s*["']http:\/\/base\.google\.com\/ns\/1\.0["']/;
+
+function fieldFor(leaf: XmlLeaf): TranslatableField | undefined {
+  if (!leaf.parentPath) return ITEM_FIELDS[leaf.name];
+  return /^g:product_detail\[\d+\]$/.test(leaf.parentPath) ? DETAIL_FIELDS[leaf.name] : undefined;
+}
+
+/** Positional path of a leaf within its item, e.g. `g:product_detail[1].g:attribute_name` */
+function leafPath(leaf: XmlLeaf): string {
+  if (leaf.parentPath) return `${leaf.parentPath}.${leaf.name}`;
+  return REPEATED.has(leaf.name) ? `${leaf.name}[${leaf.index}]` : leaf.name;
+}
+
+function productId(leaves: XmlLeaf[], index: number): string {
+  return leaves.find((l) => !l.parentPath && l.name === "g:id")?.text.trim() || `unknown-${index}`;
+}
+
+/**
+ * Extracts the selected fields of every item/entry, with paths like
+ * `product[SKU-1].g:product_detail[0].g:attribute_value`.
+ * Throws XmlParseError if the feed is not well-formed.
+ */
+export function extractGoogleMerchant(
+  xml: string,
+  sourceLang: string,
+  selectedFields?: Set<TranslatableField>,
+  options: ExtractOptions = {}
+): TranslatableItem[] {
+  validateXml(xml);
+  const collector = createItemCollector(
+    sourceLang,
+    selectedFields || defaultFields(GOOGLE_MERCHANT_FIELDS),
+    options
+  );
+
+  readXmlRecords(xml, RECORD_NAMES).forEach(({ leaves }, index) => {
+    for (const leaf of leaves) {
+      const field = fieldFor(leaf);
+      if (field) collector.add(leafPath(leaf), leaf.text, field, leaf.span, leaf.encoding);
+    }
+    const title = leaves.find((l) => !l.parentPath && (l.name === "g:title" || l.name === "title"));
+    collector.endProduct(productId(leaves, index), title?.text ?? "Untitled");
+  });
+
+  return collector.items;
+}
+
+export const googleMerchantAdapter: FeedAdapter = {
+  id: "google-merchant",
+  name: "Google Merchant Center (RSS/Atom)",
+  fileExtension: "xml",
+  mimeType: "application/xml",
+  fields: GOOGLE_MERCHANT_FIELDS,
+  detect: (content) => GOOGLE_NAMESPACE.test(content.slice(0, 4096)),
+  validate: validateXml,
+  extract: extractGoogleMerchant,
+  applyTranslations: (xml, items, translations) =>
+    writeXmlItems(xml, items, (item) => translations.get(item.text)),
+  applyItemTranslations: (xml, items, translationsByPath) =>
+    writeXmlItems(xml, items, (item) => translationsByPath.get(item.path)),
+  listProductIds: (xml) =>
+    readXmlRecords(xml, RECORD_NAMES).map(({ leaves }, index) => productId(leaves, index)),
+};
@@ -0,0 +1,122 @@
+/**
+ * HTML Chunker
+ *
+ * Splits long HTML descriptions into pieces that fit comfortably in a
+ * translation request. Splits happen only at block boundaries (closing
+ * paragraph, list item, table row, heading, div tags, line breaks and
+ * blank lines), so every chunk is a run of whole blocks and the chunks
+ * concatenate back to the exact original.
+ */
+
+/** Texts longer than this are translated in chunks */
+export const MAX_CHUNK_LENGTH = 1500;
+
+const BLOCK_BOUNDARY =
+  /<\/(?:p|li|tr|div|h[1-6]|ul|ol|table|thead|tbody|blockquote|section)\s*>|<br\s*\/?>|\n\s*\n/gi;
+
+const SENTENCE_BOUNDARY = /[.!?…]+\s+/g;
+
+/**
+ * Returns the offsets right after each match of `pattern`.
+ */
+function boundaries(text: string, pattern: RegExp): number[] {
+  const offsets: number[] = [];
+  pattern.lastIndex = 0;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    offsets.push(match.index + match[0].length);
+  }
+  return offsets;
+}
+
+/**
+ * Cuts text at the given offsets, then greedily merges neighbouring
+ * pieces while they stay within maxLength.
+ */
+function packSegments(text: string, cuts: number[], maxLength: number): string[] {
+  const segments: string[] = [];
+  let start = 0;
+  for (const cut of cuts) {
+    if (cut > start && cut < text.length) {
+      segments.push(text.slice(start, cut));
+      start = cut;
+    }
+  }
+  segments.push(text.slice(start));
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const segment of segments) {
+    if (current && current.length + segment.length > maxLength) {
+      chunks.push(current);
+      current = "";
+    }
+    current += segment;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits HTML into chunks of at most maxLength characters where possible.
+ * A single block longer than maxLength is split further at sentence ends;
+ * if it has none it is kept whole. `chunks.join("")` always equals `html`.
+ */
+export function splitHtmlBlocks(html: string, maxLength = MAX_CHUNK_LENGTH): string[] {
+  if (html.length <= maxLength) return [html];
+
+  return packSegments(html, boundaries(html, BLOCK_BOUNDARY), maxLength).flatMap((chunk) =>
+    chunk.length > maxLength
+      ? packSegments(chunk, boundaries(chunk, SENTENCE_BOUNDARY), maxLength)
+      : [chunk]
+  );
+}
+
+/**
+ * Separates leading and trailing whitespace from a chunk so only the
+ * content is sent for translation and the spacing is restored verbatim.
+ */
+export function splitPadding(chunk: string): { lead: string; core: string; trail: string } {
+  const lead = chunk.match(/^\s*/)![0];
+  const trail = chunk.slice(lead.length).match(/\s*$/)![0];
+  return { lead, core: chunk.slice(lead.length, chunk.length - trail.length), trail };
+}
+
+const TAG = /<[^>]*>/g;
+const ENTITY = /&(?:[a-zA-Z][a-zA-Z0-9]*|#\d+|#x[0-9a-fA-F]+);/g;
+
+/**
+ * Returns the sentences of the visible text as offsets into `html`: the
+ * text between tags, cut after sentence punctuation, without surrounding
+ * whitespace. Sentences without any letters are left out.
+ */
+export function sentenceRanges(html: string): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+
+  const addSentence = (start: number, end: number) => {
+    const piece = html.slice(start, end);
+    const lead = piece.match(/^\s*/)![0].length;
+    const trail = piece.slice(lead).match(/\s*$/)![0].length;
+    if (/\p{L}/u.test(piece.replace(ENTITY, ""))) {
+      ranges.push({ start: start + lead, end: end - trail });
+    }
+  };
+
+  const addTextNode = (start: number, end: number) => {
+    let sentenceStart = start;
+    for (const cut of boundaries(html.slice(start, end), SENTENCE_BOUNDARY)) {
+      addSentence(sentenceStart, start + cut);
+      sentenceStart = start + cut;
+    }
+    addSentence(sentenceStart, end);
+  };
+
+  let textStart = 0;
+  for (const tag of html.matchAll(TAG)) {
+    addTextNode(textStart, tag.index);
+    textStart = tag.index + tag[0].length;
+  }
+  addTextNode(textStart, html.length);
+
+  return ranges;
+}
@@ -0,0 +1,94 @@
+/**
+ * Incremental Feed Translation
+ *
+ * Compares the current source feed with the previous run's source feed
+ * and its translated output. Values that are unchanged at the same path
+ * reuse the previous translation; only new or modified texts need to go
+ * to the translator.
+ */
+
+import type { TranslatableItem } from "./feed-adapter";
+
+export interface FeedChanges {
+  /** Product ids only in the current feed */
+  added: string[];
+  /** Product ids in both feeds whose extracted texts differ */
+  changed: string[];
+  /** Product ids only in the previous feed */
+  removed: string[];
+  unchanged: number;
+}
+
+/** Groups items by product id as path -> text */
+function textsByProduct(items: TranslatableItem[]): Map<string, Map<string, string>> {
+  const products = new Map<string, Map<string, string>>();
+  for (const item of items) {
+    let texts = products.get(item.productId);
+    if (!texts) {
+      texts = new Map();
+      products.set(item.productId, texts);
+    }
+    texts.set(item.path, item.text);
+  }
+  return products;
+}
+
+function sameTexts(a: Map<string, string>, b: Map<string, string>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [path, text] of a) {
+    if (b.get(path) !== text) return false;
+  }
+  return true;
+}
+
+/**
+ * Reports which products were added, changed or removed between two
+ * extractions made with the same language and field settings.
+ */
+export function diffFeeds(
+  previousItems: TranslatableItem[],
+  currentItems: TranslatableItem[]
+): FeedChanges {
+  const previous = textsByProduct(previousItems);
+  const current = textsByProduct(currentItems);
+  const changes: FeedChanges = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  for (const [id, texts] of current) {
+    const before = previous.get(id);
+    if (!before) changes.added.push(id);
+    else if (!sameTexts(before, texts)) changes.changed.push(id);
+    else changes.unchanged++;
+  }
+  for (const id of previous.keys()) {
+    if (!current.has(id)) changes.removed.push(id);
+  }
+
+  return changes;
+}
+
+/**
+ * Builds a source -> translation map from the previous run for every
+ * current item whose text is identical at the same path in the previous
+ * source feed. `previousTranslatedItems` must be extracted from the
+ * previous output without language detection so every path is present.
+ * Values the previous run left untranslated are not reused.
+ */
+export function reusePreviousTranslations(
+  currentItems: TranslatableItem[],
+  previousItems: TranslatableItem[],
+  previousTranslatedItems: TranslatableItem[]
+): Map<string, string> {
+  const previousText = new Map(previousItems.map((item) => [item.path, item.text]));
+  const translatedText = new Map(previousTranslatedItems.map((item) => [item.path, item.text]));
+  const reused = new Map<string, string>();
+
+  for (const item of currentItems) {
+    if (reused.has(item.text) || previousText.get(item.path) !== item.text) continue;
+    const translated = translatedText.get(item.path);
+    if (translated !== undefined && translated !== item.text) {
+      reused.set(item.text, translated);
+    }
+  }
+
+  return reused;
+}
@@ -4,8 +4,10 @@ export interface IndustryConfig {
   icon: string;
   description: string;
   context: string; // system-level prompt context for Claude
-  glossary: Record<string, string>; // known term mappings (source -> target)
-  exampleTerms: string[]; // shown in the UI as preview
+  /** Known term mappings (source -> target) per language pair, keyed "bg-en" */
+  glossaries: Record<string, Record<string, string>>;
+  exampleTerms: string[]; // source terms shown in the UI as preview
+  brandNames?: string[]; // masked before translation, so never translated
 }
 
 export const industries: IndustryConfig[] = [
@@ -21,39 +23,57 @@ Use precise gemological terminology (e.g. "ct" for carat weight, "brilliant-cut"
 Metal types: always use "18K White Gold", "18K Rose Gold", "18K Yellow Gold", "925 Sterling Silver", "Stainless Steel", "Palladium", "Platinum".
 Jewellery types: "Ring", "Earrings", "Necklace", "Bracelet", "Pendant", "Brooch", "Cufflinks".
 Maintain an elevated, refined tone befitting a luxury maison. British English spelling (jewellery, colour, centre).`,
-    glossary: {
-      "Бижута": "Jewellery",
-      "Часовници": "Watches",
-      "Пръстен": "Ring",
-      "Обеци": "Earrings",
-      "Колие": "Necklace",
-      "Гривна": "Bracelet",
-      "Висулка": "Pendant",
-      "Брошка": "Brooch",
-      "Диаманти": "Diamonds",
-      "Сапфири": "Sapphires",
-      "Рубини": "Rubies",
-      "Смарагди": "Emeralds",
-      "18К бяло злато": "18K White Gold",
-      "18К розово злато": "18K Rose Gold",
-      "18К жълто злато": "18K Yellow Gold",
-      "Неръждаема стомана": "Stainless Steel",
-      "карата": "ct",
-      "Автоматичен": "Automatic",
-      "Ръчно навиване": "Hand-Winding",
-      "Водоустойчивост": "Water Resistance",
-      "Механизъм": "Movement",
-      "Корпус": "Case",
-      "Безел": "Bezel",
-      "Циферблат": "Dial",
-      "Каишка": "Strap",
-      "Стъкло": "Crystal",
+    glossaries: {
+      "bg-en": {
+        "Бижута": "Jewellery",
+        "Часовници": "Watches",
+        "Пръстен": "Ring",
+        "Обеци": "Earrings",
+        "Колие": "Necklace",
+        "Гривна": "Bracelet",
+        "Висулка": "Pendant",
+        "Брошка": "Brooch",
+        "Диаманти": "Diamonds",
+        "Сапфири": "Sapphires",
+        "Рубини": "Rubies",
+        "Смарагди": "Emeralds",
+        "18К бяло злато": "18K White Gold",
+        "18К розово злато": "18K Rose Gold",
+        "18К жълто злато": "18K Yellow Gold",
+        "Неръждаема стомана": "Stainless Steel",
+        "карата": "ct",
+        "Автоматичен": "Automatic",
+        "Ръчно навиване": "Hand-Winding",
+        "Водоустойчивост": "Water Resistance",
+        "Механизъм": "Movement",
+        "Корпус": "Case",
+        "Безел": "Bezel",
+        "Циферблат": "Dial",
+        "Каишка": "Strap",
+        "Стъкло": "Crystal",
+      },
     },
     exampleTerms: [
-      "Безел → Bezel",
-      "карата → ct",
-      "Механизъм → Movement",
-      "18К розово злато → 18K Rose Gold",
+      "Безел",
+      "карата",
+      "Механизъм",
+      "18К розово злато",
+    ],
+    brandNames: [
+      "Rolex",
+      "Patek Philippe",
+      "Audemars Piguet",
+      "Vacheron Constantin",
+      "Omega",
+      "Cartier",
+      "Breitling",
+      "TAG Heuer",
+      "IWC",
+      "Jaeger-LeCoultre",
+      "Panerai",
+      "Tudor",
+      "Bvlgari",
+      "Chopard",
     ],
   },
   {
@@ -67,25 +87,27 @@ Use standard fashion industry terminology (e.g. "silhouette" not "shape", "drape
 Fabric types: use proper textile names (e.g. "charmeuse", "organza", "twill", "jersey knit", "French terry").
 Sizing: maintain original sizing notation.
 Maintain a contemporary, fashion-forward tone. British English spelling.`,
-    glossary: {
-      "Дрехи": "Clothing",
-      "Обувки": "Footwear",
-      "Аксесоари": "Accessories",
-      "Рокля": "Dress",
-      "Панталон": "Trousers",
-      "Риза": "Shirt",
-      "Яке": "Jacket",
-      "Палто": "Coat",
-      "Памук": "Cotton",
-      "Коприна": "Silk",
-      "Вълна": "Wool",
-      "Полиестер": "Polyester",
+    glossaries: {
+      "bg-en": {
+        "Дрехи": "Clothing",
+        "Обувки": "Footwear",
+        "Аксесоари": "Accessories",
+        "Рокля": "Dress",
+        "Панталон": "Trousers",
+        "Риза": "Shirt",
+        "Яке": "Jacket",
+        "Палто": "Coat",
+        "Памук": "Cotton",
+        "Коприна": "Silk",
+        "Вълна": "Wool",
+        "Полиестер": "Polyester",
+      },
     },
     exampleTerms: [
-      "Рокля → Dress",
-      "Коприна → Silk",
-      "Яке → Jacket",
-      "Палто → Coat",
+      "Рокля",
+      "Коприна",
+      "Яке",
+      "Палто",
     ],
   },
   {
@@ -98,22 +120,24 @@ Maintain a contemporary, fashion-forward tone. British English spelling.`,
 Use precise technical terminology (e.g. "display" not "screen" for specs, "processor" not "chip", "storage capacity" not "memory size", "connectivity" not "connections").
 Specifications: maintain exact values, units, and model numbers untranslated.
 Use clear, concise product language typical of tech retail. British English spelling.`,
-    glossary: {
-      "Електроника": "Electronics",
-      "Смартфон": "Smartphone",
-      "Лаптоп": "Laptop",
-      "Таблет": "Tablet",
-      "Слушалки": "Headphones",
-      "Батерия": "Battery",
-      "Дисплей": "Display",
-      "Процесор": "Processor",
-      "Памет": "Memory",
+    glossaries: {
+      "bg-en": {
+        "Електроника": "Electronics",
+        "Смартфон": "Smartphone",
+        "Лаптоп": "Laptop",
+        "Таблет": "Tablet",
+        "Слушалки": "Headphones",
+        "Батерия": "Battery",
+        "Дисплей": "Display",
+        "Процесор": "Processor",
+        "Памет": "Memory",
+      },
     },
     exampleTerms: [
-      "Дисплей → Display",
-      "Процесор → Processor",
-      "Батерия → Battery",
-      "Слушалки → Headphones",
+      "Дисплей",
+      "Процесор",
+      "Батерия",
+      "Слушалки",
     ],
   },
   {
@@ -126,22 +150,24 @@ Use clear, concise product language typical of tech retail. British English spel
 Use interior design terminology (e.g. "upholstery" not "covering", "veneer" not "thin wood layer", "patina" not "aged look", "bespoke" for custom-made).
 Materials: use proper names (e.g. "solid oak", "Italian marble", "brushed nickel", "hand-blown glass").
 Maintain a sophisticated, lifestyle-oriented tone. British English spelling.`,
-    glossary: {
-      "Мебели": "Furniture",
-      "Маса": "Table",
-      "Стол": "Chair",
-      "Диван": "Sofa",
-      "Легло": "Bed",
-      "Шкаф": "Cabinet",
-      "Лампа": "Lamp",
-      "Килим": "Rug",
-      "Дърво": "Wood",
+    glossaries: {
+      "bg-en": {
+        "Мебели": "Furniture",
+        "Маса": "Table",
+        "Стол": "Chair",
+        "Диван": "Sofa",
+        "Легло": "Bed",
+        "Шкаф": "Cabinet",
+        "Лампа": "Lamp",
+        "Килим": "Rug",
+        "Дърво": "Wood",
+      },
     },
     exampleTerms: [
-      "Мебели → Furniture",
-      "Диван → Sofa",
-      "Килим → Rug",
-      "Дърво → Wood",
+      "Мебели",
+      "Диван",
+      "Килим",
+      "Дърво",
     ],
   },
   {
@@ -154,21 +180,23 @@ Maintain a sophisticated, lifestyle-oriented tone. British English spelling.`,
 Use beauty industry terminology (e.g. "formulation" not "recipe", "pigmentation" not "colour intensity", "luminosity" not "glow", "complexion" not "skin colour").
 Ingredients: maintain INCI names unchanged, translate common names alongside.
 Maintain an aspirational, sensorial tone. British English spelling.`,
-    glossary: {
-      "Козметика": "Cosmetics",
-      "Грим": "Makeup",
-      "Парфюм": "Fragrance",
-      "Крем": "Cream",
-      "Серум": "Serum",
-      "Маска": "Mask",
-      "Червило": "Lipstick",
-      "Сенки": "Eyeshadow",
+    glossaries: {
+      "bg-en": {
+        "Козметика": "Cosmetics",
+        "Грим": "Makeup",
+        "Парфюм": "Fragrance",
+        "Крем": "Cream",
+        "Серум": "Serum",
+        "Маска": "Mask",
+        "Червило": "Lipstick",
+        "Сенки": "Eyeshadow",
+      },
     },
     exampleTerms: [
-      "Парфюм → Fragrance",
-      "Серум → Serum",
-      "Червило → Lipstick",
-      "Козметика → Cosmetics",
+      "Парфюм",
+      "Серум",
+      "Червило",
+      "Козметика",
     ],
   },
   {
@@ -178,7 +206,7 @@ Maintain an aspirational, sensorial tone. British English spelling.`,
     description:
       "Define your own terminology context. Provide a custom prompt describing your industry.",
     context: "",
-    glossary: {},
+    glossaries: {},
     exampleTerms: [],
   },
 ];
@@ -186,3 +214,36 @@ Maintain an aspirational, sensorial tone. British English spelling.`,
 export function getIndustry(id: string): IndustryConfig | undefined {
   return industries.find((i) => i.id === id);
 }
+
+export function languagePairKey(sourceLang: string, targetLang: string): string {
+  return `${sourceLang}-${targetLang}`;
+}
+
+/**
+ * Returns the industry's glossary for a language pair (empty if the
+ * industry has none for that pair).
+ */
+export function getGlossary(
+  industry: IndustryConfig,
+  sourceLang: string,
+  targetLang: string
+): Record<string, string> {
+  return industry.glossaries[languagePairKey(sourceLang, targetLang)] ?? {};
+}
+
+/**
+ * Formats the preview mappings for a language pair: the industry's
+ * featured terms that the pair's glossary covers, or else its first few
+ * entries.
+ */
+export function getExampleTerms(
+  industry: IndustryConfig,
+  sourceLang: string,
+  targetLang: string,
+  limit = 4
+): string[] {
+  const glossary = getGlossary(industry, sourceLang, targetLang);
+  const featured = industry.exampleTerms.filter((term) => term in glossary);
+  const terms = featured.length > 0 ? featured : Object.keys(glossary);
+  return terms.slice(0, limit).map((term) => `${term} → ${glossary[term]}`);
+}
@@ -0,0 +1,62 @@
+/**
+ * Custom Industry Profiles
+ *
+ * User-defined industries: a prompt context, glossaries, tone and spelling
+ * variant. Profiles are stored by profile-store; a profile is turned into
+ * a fresh IndustryConfig for each request, so nothing module-level is
+ * ever modified.
+ */
+
+import type { IndustryConfig } from "./industries";
+
+/** Profile ids carry this prefix so they never clash with built-in industries */
+export const PROFILE_ID_PREFIX = "profile-";
+
+export interface IndustryProfile {
+  id: string;
+  name: string;
+  description: string;
+  /** Terminology instructions for Claude */
+  context: string;
+  /** e.g. "formal", "friendly"; empty for no preference */
+  tone: string;
+  /** e.g. "British English"; empty for no preference */
+  spellingVariant: string;
+  /** Term mappings per language pair, keyed "bg-en" */
+  glossaries: Record<string, Record<string, string>>;
+  /** Brand names kept as they are; absent on profiles saved before they existed */
+  brandNames?: string[];
+  updatedAt: string;
+}
+
+export type IndustryProfileInput = Partial<Omit<IndustryProfile, "updatedAt">> &
+  Pick<IndustryProfile, "name" | "context">;
+
+export function isProfileId(id: string): boolean {
+  return id.startsWith(PROFILE_ID_PREFIX);
+}
+
+/**
+ * Builds the IndustryConfig used for translation; tone and spelling
+ * variant become extra lines of the context.
+ */
+export function profileToIndustry(profile: IndustryProfile): IndustryConfig {
+  const context = [
+    profile.context,
+    profile.tone && `Maintain a ${profile.tone} tone.`,
+    profile.spellingVariant && `Use ${profile.spellingVariant} spelling.`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    icon: "⚙️",
+    description: profile.description,
+    context,
+    glossaries: profile.glossaries,
+    exampleTerms: [],
+    brandNames: profile.brandNames ?? [],
+  };
+}
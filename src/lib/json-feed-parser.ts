@@ -0,0 +1,405 @@
+/**
+ * JSON Product Feed Parser
+ *
+ * Reads product catalogs exported as JSON (an array of products, or an
+ * object holding one) or as JSON Lines (one product per line). JSON has no
+ * fixed product schema, so the user maps paths within a product, such as
+ * `variants[*].options[*].value`, to field types. Strings are located with
+ * their offsets and rewritten in place as JSON string literals, so the
+ * output is valid JSON with only the mapped values changed and the
+ * original formatting kept.
+ */
+
+import { positionAt } from "./xml-tokenizer";
+import {
+  createItemCollector,
+  FeedFormatError,
+  isTranslatableField,
+  writeSpans,
+  type ExtractOptions,
+  type FeedAdapter,
+  type FeedField,
+  type TranslatableField,
+  type TranslatableItem,
+} from "./feed-adapter";
+
+export type JsonNode =
+  | { type: "object"; entries: { key: string; value: JsonNode }[]; start: number; end: number }
+  | { type: "array"; items: JsonNode[]; start: number; end: number }
+  /** Offsets include the quotes; `value` is unescaped */
+  | { type: "string"; value: string; start: number; end: number }
+  | { type: "number" | "boolean" | "null"; raw: string; start: number; end: number };
+
+type JsonString = Extract<JsonNode, { type: "string" }>;
+
+export interface JsonFieldMapping {
+  /** Path within a product, e.g. `variants[*].options[*].value` */
+  path: string;
+  field: TranslatableField;
+}
+
+export interface JsonFeedMapping {
+  /**
+   * Where the products are, e.g. `data.products[*]`. Empty: the root array,
+   * the array under a `products`, `items` or `data` key of the root object,
+   * or else the root object itself. Ignored for JSON Lines, where every
+   * line is a product.
+   */
+  recordsPath: string;
+  /** Path of the product id within a product */
+  idPath: string;
+  /** Path of the product title, shown as context */
+  titlePath: string;
+  fields: JsonFieldMapping[];
+}
+
+/** A starting point for common headless-commerce exports; users adjust it per feed */
+export const DEFAULT_JSON_MAPPING: JsonFeedMapping = {
+  recordsPath: "",
+  idPath: "id",
+  titlePath: "title",
+  fields: [
+    { path: "title", field: "title" },
+    { path: "description", field: "description" },
+    { path: "short_description", field: "short_description" },
+    { path: "meta_title", field: "meta_title" },
+    { path: "meta_description", field: "meta_description" },
+    { path: "categories[*]", field: "category" },
+    { path: "tags[*]", field: "tags" },
+    { path: "variants[*].options[*].name", field: "option_name" },
+    { path: "variants[*].options[*].value", field: "option_value" },
+  ],
+};
+
+/** Where a run of plain string characters ends */
+const STRING_STOP = /["\\\n]/g;
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Parses a JSON document, or JSON Lines (several top-level values
+ * separated by whitespace), keeping the offsets of every value.
+ * Throws FeedFormatError with the line and column of the first problem.
+ */
+export function parseJsonValues(text: string): JsonNode[] {
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const fail = (message: string): never => {
+    const { line, column } = positionAt(text, pos);
+    throw new FeedFormatError(`${message} (line ${line}, column ${column})`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /[ \t\r\n]/.test(text[pos])) pos++;
+  };
+
+  const expect = (char: string) => {
+    if (text[pos] !== char) fail(pos < text.length ? `Expected "${char}"` : "Unexpected end of JSON");
+    pos++;
+  };
+
+  const parseString = (): JsonString => {
+    const start = pos;
+    pos++;
+    let value = "";
+    for (;;) {
+      STRING_STOP.lastIndex = pos;
+      const stop = STRING_STOP.exec(text);
+      if (!stop) fail("Unterminated string");
+      value += text.slice(pos, stop!.index);
+      pos = stop!.index;
+      const char = text[pos];
+      if (char === '"') break;
+      if (char === "\n") fail("Line break in string");
+      // Backslash escape
+      const escape = text[pos + 1];
+      if (escape === "u") {
+        const hex = text.slice(pos + 2, pos + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail("Invalid unicode escape");
+        value += String.fromCharCode(parseInt(hex, 16));
+        pos += 6;
+      } else if (escape in ESCAPES) {
+        value += ESCAPES[escape];
+        pos += 2;
+      } else {
+        fail("Invalid escape");
+      }
+    }
+    pos++;
+    return { type: "string", value, start, end: pos };
+  };
+
+  const parseValue = (depth: number): JsonNode => {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
+
+    if (char === '"') return parseString();
+
+    if (char === "{" || char === "[") {
+      if (depth > 512) fail("JSON nested too deeply");
+      const close = char === "{" ? "}" : "]";
+      const entries: { key: string; value: JsonNode }[] = [];
+      const items: JsonNode[] = [];
+      pos++;
+      skipWhitespace();
+      if (text[pos] === close) {
+        pos++;
+      } else {
+        for (;;) {
+          if (char === "{") {
+            skipWhitespace();
+            if (text[pos] !== '"') fail("Expected a property name");
+            const key = parseString();
+            skipWhitespace();
+            expect(":");
+            entries.push({ key: key.value, value: parseValue(depth + 1) });
+          } else {
+            items.push(parseValue(depth + 1));
+          }
+          skipWhitespace();
+          if (text[pos] === ",") {
+            pos++;
+            continue;
+          }
+          expect(close);
+          break;
+        }
+      }
+      return char === "{"
+        ? { type: "object", entries, start, end: pos }
+        : { type: "array", items, start, end: pos };
+    }
+
+    const literal = /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(
+      text.slice(pos, pos + 64)
+    );
+    if (!literal) fail(pos < text.length ? "Unexpected character" : "Unexpected end of JSON");
+    const raw = literal![0];
+    pos += raw.length;
+    return {
+      type: raw === "null" ? "null" : raw === "true" || raw === "false" ? "boolean" : "number",
+      raw,
+      start,
+      end: pos,
+    };
+  };
+
+  const values: JsonNode[] = [];
+  skipWhitespace();
+  while (pos < text.length) {
+    values.push(parseValue(0));
+    skipWhitespace();
+  }
+  if (values.length === 0) fail("The file is empty");
+  return values;
+}
+
+type PathSegment = { key: string } | { index: number | "*" };
+
+const SEGMENT_PATTERN = /\.?([A-Za-z_$][\w$-]*)|\[(\*|\d+)\]/y;
+
+/**
+ * Splits `variants[*].options[0].value` into segments; null if the path
+ * is not valid.
+ */
+function parsePath(path: string): PathSegment[] | null {
+  const segments: PathSegment[] = [];
+  SEGMENT_PATTERN.lastIndex = 0;
+  while (SEGMENT_PATTERN.lastIndex < path.length) {
+    const atStart = SEGMENT_PATTERN.lastIndex === 0;
+    const match = SEGMENT_PATTERN.exec(path);
+    // Keys are separated by dots, except the first
+    if (!match || (match[1] !== undefined && atStart === match[0].startsWith("."))) return null;
+    if (match[1] !== undefined) segments.push({ key: match[1] });
+    else segments.push({ index: match[2] === "*" ? "*" : Number(match[2]) });
+  }
+  return segments;
+}
+
+/** The nodes a path selects, with their concrete paths (`[*]` replaced by indexes) */
+function selectPath(
+  node: JsonNode,
+  segments: PathSegment[],
+  path = ""
+): { node: JsonNode; path: string }[] {
+  if (segments.length === 0) return [{ node, path }];
+  const [segment, ...rest] = segments;
+
+  if ("key" in segment) {
+    if (node.type !== "object") return [];
+    const entry = node.entries.find((e) => e.key === segment.key);
+    return entry ? selectPath(entry.value, rest, path ? `${path}.${segment.key}` : segment.key) : [];
+  }
+  if (node.type !== "array") return [];
+  const indexes = segment.index === "*" ? node.items.map((_, i) => i) : [segment.index];
+  return indexes
+    .filter((i) => i < node.items.length)
+    .flatMap((i) => selectPath(node.items[i], rest, `${path}[${i}]`));
+}
+
+/**
+ * Checks a mapping from user input. Returns the problems found, empty if
+ * the mapping can be used.
+ */
+export function jsonMappingProblems(value: unknown): string[] {
+  if (typeof value !== "object" || value === null) return ["The mapping must be an object"];
+  const mapping = value as Partial<JsonFeedMapping>;
+  const problems: string[] = [];
+
+  for (const key of ["recordsPath", "idPath", "titlePath"] as const) {
+    const path = mapping[key];
+    if (typeof path !== "string") problems.push(`${key} must be a string`);
+    else if (path && !parsePath(path)) problems.push(`${key}: "${path}" is not a valid path`);
+  }
+  if (!mapping.idPath) problems.push("idPath is required");
+
+  if (!Array.isArray(mapping.fields) || mapping.fields.length === 0) {
+    problems.push("Map at least one path to a field");
+    return problems;
+  }
+  for (const entry of mapping.fields) {
+    if (typeof entry?.path !== "string" || !parsePath(entry.path)) {
+      problems.push(`"${entry?.path}" is not a valid path`);
+    } else if (typeof entry.field !== "string" || !isTranslatableField(entry.field)) {
+      problems.push(`${entry.path}: unknown field "${entry?.field}"`);
+    }
+  }
+  return problems;
+}
+
+/** Field mappings as editable text, one `path = field` per line */
+export function formatFieldMappings(fields: JsonFieldMapping[]): string {
+  return fields.map(({ path, field }) => `${path} = ${field}`).join("\n");
+}
+
+/**
+ * Reads `path = field` lines; blank lines and lines starting with # are
+ * skipped. Lines that do not parse are reported, not dropped silently.
+ */
+export function parseFieldMappings(text: string): { fields: JsonFieldMapping[]; problems: string[] } {
+  const fields: JsonFieldMapping[] = [];
+  const problems: string[] = [];
+  text.split("\n").forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+    const match = /^(.+?)\s*=\s*(\w+)$/.exec(trimmed);
+    if (!match) {
+      problems.push(`Line ${i + 1}: expected "path = field"`);
+    } else if (!isTranslatableField(match[2])) {
+      problems.push(`Line ${i + 1}: unknown field "${match[2]}"`);
+    } else {
+      fields.push({ path: match[1], field: match[2] });
+    }
+  });
+  return { fields, problems };
+}
+
+/** Root object keys that hold the product list when no records path is set */
+const WRAPPER_KEYS = ["products", "items", "data"];
+
+/** The products of a feed: every line of JSON Lines, else the records path */
+function readRecords(content: string, recordsPath: string): JsonNode[] {
+  const values = parseJsonValues(content);
+  if (values.length > 1) return values;
+
+  const [root] = values;
+  if (recordsPath) return selectPath(root, parsePath(recordsPath) ?? []).map((s) => s.node);
+  if (root.type === "array") return root.items;
+  if (root.type === "object") {
+    // A wrapper like { "products": [...] }, else a single product (whose
+    // own lists, such as variants, are not products)
+    for (const key of WRAPPER_KEYS) {
+      const list = root.entries.find((entry) => entry.key === key)?.value;
+      if (list?.type === "array" && list.items.every((item) => item.type === "object")) {
+        return list.items;
+      }
+    }
+    return [root];
+  }
+  throw new FeedFormatError("No products found: set where the products are in the JSON mapping");
+}
+
+function scalarAt(record: JsonNode, path: string): string | undefined {
+  const segments = path ? parsePath(path) : null;
+  const node = segments && selectPath(record, segments)[0]?.node;
+  if (node?.type === "string") return node.value;
+  if (node?.type === "number") return node.raw;
+  return undefined;
+}
+
+/** Builds the adapter for JSON feeds read with `mapping` */
+export function createJsonAdapter(mapping: JsonFeedMapping): FeedAdapter {
+  const compiled = mapping.fields.flatMap(({ path, field }) => {
+    const segments = parsePath(path);
+    return segments ? [{ segments, field }] : [];
+  });
+
+  // One checkbox per field type, labelled with the paths mapped to it
+  const fields: FeedField[] = [];
+  for (const { path, field } of mapping.fields) {
+    const existing = fields.find((f) => f.id === field);
+    if (existing) existing.label += `, ${path}`;
+    else fields.push({ id: field, label: `${field}: ${path}`, group: "Mapped paths", defaultOn: true });
+  }
+
+  const productId = (record: JsonNode, index: number) =>
+    scalarAt(record, mapping.idPath)?.trim() || `unknown-${index}`;
+
+  const extract = (
+    content: string,
+    sourceLang: string,
+    selectedFields?: Set<TranslatableField>,
+    options: ExtractOptions = {}
+  ): TranslatableItem[] => {
+    const collector = createItemCollector(
+      sourceLang,
+      selectedFields || new Set(fields.map((f) => f.id)),
+      options
+    );
+    readRecords(content, mapping.recordsPath).forEach((record, index) => {
+      for (const { segments, field } of compiled) {
+        for (const { node, path } of selectPath(record, segments)) {
+          if (node.type !== "string") continue;
+          collector.add(path, node.value, field, { start: node.start, end: node.end }, "json");
+        }
+      }
+      collector.endProduct(productId(record, index), scalarAt(record, mapping.titlePath) ?? "Untitled");
+    });
+    return collector.items;
+  };
+
+  const write = (
+    content: string,
+    items: TranslatableItem[],
+    translationFor: (item: TranslatableItem) => string | undefined
+  ) => writeSpans(content, items, translationFor, (_item, translated) => JSON.stringify(translated));
+
+  return {
+    id: "json",
+    name: "JSON / JSON Lines",
+    fileExtension: "json",
+    mimeType: "application/json",
+    fields,
+    detect: (content) => /^\uFEFF?\s*[[{]/.test(content),
+    validate: (content) => {
+      parseJsonValues(content);
+    },
+    extract,
+    applyTranslations: (content, items, translations) =>
+      write(content, items, (item) => translations.get(item.text)),
+    applyItemTranslations: (content, items, translationsByPath) =>
+      write(content, items, (item) => translationsByPath.get(item.path)),
+    listProductIds: (content) =>
+      readRecords(content, mapping.recordsPath).map((record, index) => productId(record, index)),
+  };
+}
@@ -0,0 +1,315 @@
+/**
+ * Source Language Detection
+ *
+ * Script checks tell Bulgarian from English, but not Polish from English.
+ * For Latin-script text an identifier scores the text against small
+ * per-language profiles (common words, frequent character trigrams and
+ * letters with diacritics); it runs locally, so it is cheap enough to call
+ * for every feed value.
+ */
+
+import { sentenceRanges } from "./html-chunker";
+
+interface LanguageProfile {
+  /** Function words plus everyday product words (colours, materials, sizes) */
+  commonWords: string[];
+  /** Frequent character trigrams; a space marks a word boundary */
+  trigrams: string[];
+  /** Letters that occur in this language, beyond plain a-z */
+  letters: string;
+}
+
+const PROFILES: Record<string, LanguageProfile> = {
+  en: {
+    commonWords: [
+      "the and of to in is for with on an this that by from are as it be or at your",
+      "you our its has have will can all not but which made size colour color black",
+      "white red blue green grey gray brown pink yellow leather steel gold silver",
+      "stainless strap watch ring women men new set pack case water resistant",
+    ].join(" ").split(" "),
+    trigrams: [" th", "the", "he ", "ing", "ng ", "and", "nd ", "ion", "ed ", "tio", " wi", "ith"],
+    letters: "",
+  },
+  de: {
+    commonWords: [
+      "der die das und ist mit für von zu den dem ein eine einer nicht auf im sich",
+      "des auch aus bei oder sie wir ihr wird sind kann größe farbe schwarz weiß",
+      "rot blau grün grau braun gelb leder edelstahl silber uhr herren damen neu",
+    ].join(" ").split(" "),
+    trigrams: ["en ", "er ", "sch", "ich", "ein", "der", "und", " de", "che", "gen", "ung", "cht"],
+    letters: "äöüß",
+  },
+  fr: {
+    commonWords: [
+      "le la les et des du un une est pour avec dans sur au aux par ce cette qui",
+      "que pas vous votre nos plus en son sa ses taille couleur noir blanc rouge",
+      "bleu vert gris marron rose jaune cuir acier argent montre bague homme femme",
+      "nouveau",
+    ].join(" ").split(" "),
+    trigrams: ["es ", " de", "ent", "ion", "le ", "de ", " le", "que", "ous", "eur", "ell", " la"],
+    letters: "éèêëàâçœîïôûù",
+  },
+  es: {
+    commonWords: [
+      "el la los las y de del en un una es para con por que se su sus al lo como",
+      "más este esta talla color negro blanco rojo azul verde gris marrón rosa",
+      "amarillo cuero acero plata reloj anillo hombre mujer nuevo",
+    ].join(" ").split(" "),
+    trigrams: ["de ", " de", "os ", "ión", "la ", "el ", "que", "ent", " la", "ado", "as ", " co"],
+    letters: "ñáéíóú¿¡",
+  },
+  it: {
+    commonWords: [
+      "il lo la gli le e di del della un una è per con in che non sono da dei delle",
+      "al questo questa taglia colore nero bianco rosso blu verde grigio marrone",
+      "rosa giallo pelle acciaio argento orologio anello uomo donna nuovo",
+    ].join(" ").split(" "),
+    trigrams: ["di ", " di", "to ", "la ", "ell", "zio", "che", "one", "ent", "are", "del", " co"],
+    letters: "àèéìòù",
+  },
+  pt: {
+    commonWords: [
+      "o a os as e de do da dos das em um uma é para com por que não no na se seu",
+      "sua tamanho cor preto branco vermelho azul verde cinza castanho rosa amarelo",
+      "couro aço prata relógio anel homem mulher novo",
+    ].join(" ").split(" "),
+    trigrams: ["de ", " de", "ão ", "os ", "ção", "ent", "que", "do ", "da ", "com", "nte", " co"],
+    letters: "ãõçáéíóúâêô",
+  },
+  nl: {
+    commonWords: [
+      "de het een en van is in met voor op te dat die niet zijn aan bij ook uit als",
+      "of maat kleur zwart wit rood blauw groen grijs bruin roze geel leer staal",
+      "zilver horloge ring heren dames nieuw",
+    ].join(" ").split(" "),
+    trigrams: ["en ", "de ", " de", "van", "een", "het", "ijk", "oor", "aar", "ver", " he", "cht"],
+    letters: "",
+  },
+  pl: {
+    commonWords: [
+      "i w z ze na do się jest nie to że od o dla za po jak przez oraz lub ten ta",
+      "są rozmiar kolor czarny biały czerwony niebieski zielony szary brązowy",
+      "różowy żółty skóra skórzany stal srebro zegarek pierścionek męski damski",
+      "nowy",
+    ].join(" ").split(" "),
+    trigrams: ["nie", "ie ", "ch ", "ego", "prz", "rze", "ych", "owa", "czn", "ści", " pr", "ani"],
+    letters: "ąćęłńóśźż",
+  },
+  cs: {
+    commonWords: [
+      "a v se na je s z do že to pro o jako by od ve ze není jsou k u také nebo",
+      "velikost barva černá bílá červená modrá zelená šedá hnědá růžová žlutá kůže",
+      "ocel stříbro hodinky prsten pánské dámské nový",
+    ].join(" ").split(" "),
+    trigrams: ["ní ", "ost", "pro", "ch ", "je ", "né ", "ova", "ých", "ení", " pr", "kte", "ter"],
+    letters: "ěščřžýáíéůúťďň",
+  },
+  sk: {
+    commonWords: [
+      "a v sa na je s z do že to pre o ako by od vo zo nie sú k u aj alebo veľkosť",
+      "farba čierna biela červená modrá zelená sivá hnedá ružová žltá koža oceľ",
+      "striebro hodinky prsteň pánske dámske nový",
+    ].join(" ").split(" "),
+    trigrams: ["ie ", "ch ", "ost", "pre", "ova", "nie", "ých", "ého", "ani", " pr", " sa", "ému"],
+    letters: "ľĺŕäôščžýáíéúťďň",
+  },
+  ro: {
+    commonWords: [
+      "și de la în cu pe un o este pentru din care nu sunt mai ca al ale sau se",
+      "mărime culoare negru alb roșu albastru verde gri maro roz galben piele oțel",
+      "argint ceas inel bărbați femei nou",
+    ].join(" ").split(" "),
+    trigrams: ["re ", "ul ", "lor", "ea ", " de", "ate", "are", "ții", "și ", " în", "ent", "tru"],
+    letters: "ăâîșțşţ",
+  },
+  hu: {
+    commonWords: [
+      "a az és egy hogy nem is van ez meg de csak volt mint már vagy el ki be méret",
+      "szín fekete fehér piros kék zöld szürke barna rózsaszín sárga bőr acél ezüst",
+      "óra gyűrű férfi női új",
+    ].join(" ").split(" "),
+    trigrams: ["sze", "egy", "ogy", "nak", "hoz", "ség", "ben", "ból", " az", "ek ", "et ", " me"],
+    letters: "őűáéíóöüú",
+  },
+  tr: {
+    commonWords: [
+      "ve bir bu için ile da de çok daha olan gibi ne var en her değil ama veya",
+      "beden renk siyah beyaz kırmızı mavi yeşil gri kahverengi pembe sarı deri",
+      "çelik gümüş saat yüzük erkek kadın yeni",
+    ].join(" ").split(" "),
+    trigrams: ["lar", "ler", "ın ", "in ", "bir", "eri", "ara", "ası", "dır", " bi", "an ", "ini"],
+    letters: "ğışçöü",
+  },
+  hr: {
+    commonWords: [
+      "i u je na za se od da su s ili kao koji to ne sa ali iz po veličina boja",
+      "crna bijela crvena plava zelena siva smeđa ružičasta žuta koža čelik srebro",
+      "sat prsten muški ženski novo",
+    ].join(" ").split(" "),
+    trigrams: ["je ", "ije", "ova", "ost", " pr", "nje", "ima", " su", "ih ", "ati", " za", "ni "],
+    letters: "čćđšž",
+  },
+  sl: {
+    commonWords: [
+      "in je v za na se da so z ali ki kot pa tudi ne od po iz s velikost barva",
+      "črna bela rdeča modra zelena siva rjava roza rumena usnje jeklo srebro ura",
+      "prstan moški ženski nov",
+    ].join(" ").split(" "),
+    trigrams: ["je ", "ost", "ski", "nje", "pri", "van", " pr", " in", "ih ", "ega", " za", "ni "],
+    letters: "čšž",
+  },
+};
+
+const WORD_WEIGHT = 3;
+const TRIGRAM_WEIGHT = 1;
+const LETTER_WEIGHT = 2;
+/** Score the winner needs for full confidence; shorter texts are less certain */
+const CONFIDENT_SCORE = 8;
+
+/** Default minimum confidence for ruling a value out of the source language */
+export const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+export interface LanguageGuess {
+  /** Best matching language code, or null when the text gives no signal */
+  language: string | null;
+  /** 0-1: how clearly the best language beat the runner-up, scaled down for little evidence */
+  confidence: number;
+}
+
+const wordSets = new Map(
+  Object.entries(PROFILES).map(([lang, profile]) => [lang, new Set(profile.commonWords)])
+);
+
+/** Letters with diacritics weighted by how few languages share them */
+const letterWeights = new Map<string, Map<string, number>>();
+{
+  const sharedBy = new Map<string, number>();
+  for (const profile of Object.values(PROFILES)) {
+    for (const letter of profile.letters) sharedBy.set(letter, (sharedBy.get(letter) ?? 0) + 1);
+  }
+  for (const [lang, profile] of Object.entries(PROFILES)) {
+    letterWeights.set(
+      lang,
+      new Map([...profile.letters].map((letter) => [letter, 1 / sharedBy.get(letter)!]))
+    );
+  }
+}
+
+export function hasLanguageProfile(lang: string): boolean {
+  return lang in PROFILES;
+}
+
+/** Lower-cased words of the visible text: markup, entities, URLs and digits removed */
+function words(text: string): string[] {
+  const visible = text
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(?:[a-zA-Z][a-zA-Z0-9]*|#\d+|#x[0-9a-fA-F]+);/g, " ")
+    .replace(/https?:\/\/\S+/g, " ");
+  return visible.toLowerCase().match(/\p{L}+/gu) ?? [];
+}
+
+/**
+ * Guesses which of the profiled Latin-script languages the text is in.
+ */
+export function identifyLanguage(text: string): LanguageGuess {
+  const tokens = words(text);
+  if (tokens.length === 0) return { language: null, confidence: 0 };
+
+  const padded = ` ${tokens.join(" ")} `;
+  const scores = Object.entries(PROFILES).map(([lang, profile]) => {
+    const common = wordSets.get(lang)!;
+    const letters = letterWeights.get(lang)!;
+    let score = 0;
+    for (const token of tokens) if (common.has(token)) score += WORD_WEIGHT;
+    for (const trigram of profile.trigrams) {
+      for (let i = padded.indexOf(trigram); i !== -1; i = padded.indexOf(trigram, i + 1)) {
+        score += TRIGRAM_WEIGHT;
+      }
+    }
+    for (const char of padded) score += (letters.get(char) ?? 0) * LETTER_WEIGHT;
+    return { lang, score };
+  });
+
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  if (best.score === 0) return { language: null, confidence: 0 };
+
+  const margin = (best.score - runnerUp.score) / best.score;
+  const evidence = Math.min(1, best.score / CONFIDENT_SCORE);
+  return { language: best.lang, confidence: Math.round(margin * evidence * 100) / 100 };
+}
+
+/**
+ * Detects whether text contains characters from the source language's
+ * script (Cyrillic, Greek, CJK, Arabic, Hebrew). Always true for
+ * Latin-script languages; those are told apart by `identifyLanguage`.
+ */
+export function containsSourceLanguage(
+  text: string,
+  sourceLang: string
+): boolean {
+  if (!text || text.trim().length === 0) return false;
+
+  switch (sourceLang) {
+    case "bg": // Bulgarian
+    case "ru": // Russian
+    case "sr": // Serbian
+    case "mk": // Macedonian
+    case "uk": // Ukrainian
+      return /[\u0400-\u04FF]/.test(text);
+    case "el": // Greek
+      return /[\u0370-\u03FF]/.test(text);
+    case "zh": // Chinese
+      return /[\u4E00-\u9FFF]/.test(text);
+    case "ja": // Japanese
+      return /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FFF]/.test(text);
+    case "ko": // Korean
+      return /[\uAC00-\uD7AF]/.test(text);
+    case "ar": // Arabic
+      return /[\u0600-\u06FF]/.test(text);
+    case "he": // Hebrew
+      return /[\u0590-\u05FF]/.test(text);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Returns why a value is not in the source language, or null if it may
+ * be. Values without the source script are ruled out outright (language
+ * null); Latin-script values only when the identifier picks another
+ * language with at least `minConfidence`. Short or ambiguous values are
+ * kept, so they are still translated.
+ */
+export function sourceLanguageMismatch(
+  text: string,
+  sourceLang: string,
+  minConfidence: number
+): LanguageGuess | null {
+  if (!containsSourceLanguage(text, sourceLang)) return { language: null, confidence: 1 };
+  if (!hasLanguageProfile(sourceLang)) return null;
+
+  const guess = identifyLanguage(text);
+  return guess.language && guess.language !== sourceLang && guess.confidence >= minConfidence
+    ? guess
+    : null;
+}
+
+/**
+ * Finds the sentences of a value that are in the source language. Returns
+ * null when they all are (the value is translated whole), otherwise their
+ * ranges, so sentences already in another language are left untouched.
+ */
+export function findSourceSegments(
+  text: string,
+  sourceLang: string,
+  minConfidence: number
+): { start: number; end: number }[] | null {
+  const sentences = sentenceRanges(text);
+  const inSource = sentences.filter(
+    ({ start, end }) => !sourceLanguageMismatch(text.slice(start, end), sourceLang, minConfidence)
+  );
+  // No single sentence stands out as the source language although the
+  // value as a whole does: translate it whole
+  return inSource.length > 0 && inSource.length < sentences.length ? inSource : null;
+}
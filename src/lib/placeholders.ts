@@ -0,0 +1,111 @@
+/**
+ * Placeholder Masking
+ *
+ * Before a text is sent to Claude, the parts that must come back
+ * unchanged (HTML tags, entities, reference numbers, measurements, brand
+ * names and other protected terms) are replaced with numbered placeholders such as ⟦1⟧.
+ * After translation the placeholders are swapped back; a translation
+ * that lost, duplicated or invented a placeholder is rejected.
+ */
+
+export interface MaskedText {
+  /** Text with placeholders */
+  masked: string;
+  /** Original of placeholder n at index n - 1 */
+  tokens: string[];
+}
+
+const PLACEHOLDER_PATTERN = /⟦(\d+)⟧/g;
+
+/** A run of tags, e.g. "</li>\n<li class='x'>" */
+const TAGS = String.raw`<\/?[a-zA-Z](?:[^>"']|"[^"]*"|'[^']*')*>(?:\s*<\/?[a-zA-Z](?:[^>"']|"[^"]*"|'[^']*')*>)*`;
+/** A run of entities, e.g. "&nbsp;&ndash;&nbsp;" */
+const ENTITIES = String.raw`(?:&(?:[a-zA-Z][a-zA-Z0-9]*|#\d+|#x[0-9a-fA-F]+);)+`;
+/**
+ * Codes mixing digits with capital Latin letters, slashes or hyphens:
+ * "5711/1A", "PAM01312", "SKU-204". Cyrillic letters are left out so
+ * "18К" can still become "18K".
+ */
+const CODES = String.raw`(?<![\p{L}\d])(?=[A-Z\d./-]*\d)(?=[A-Z\d./-]*[A-Z/-])[A-Z\d]+(?:[./-][A-Z\d]+)*(?![\p{L}\d])`;
+/** Numbers and dimensions with an optional Latin unit: "42", "3,5 g", "40 x 12 mm" */
+const MEASUREMENTS = String.raw`(?<![\p{L}\d])\d+(?:[.,]\d+)*(?:\s?[x×]\s?\d+(?:[.,]\d+)*)*(?:\s?(?:mm|cm|m|km|mg|g|kg|ml|l|ct|mAh|Wh|kW|W|V|Hz|kHz|MHz|GHz|KB|MB|GB|TB|ATM|atm|bar|°C|°F|%)(?![\p{L}\d]))?(?![\p{L}\d])`;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function maskPattern(protectedTerms: string[]): RegExp {
+  const key = protectedTerms.join("\n");
+  let pattern = patternCache.get(key);
+  if (!pattern) {
+    // Longest term first so "Patek Philippe" wins over "Patek"
+    const terms = protectedTerms
+      .map((t) => t.trim())
+      .filter(Boolean)
+      .sort((a, b) => b.length - a.length)
+      .map((t) => `(?<![\\p{L}\\d])${escapeRegExp(t)}(?![\\p{L}\\d])`);
+    const parts = [TAGS, ENTITIES, ...terms, CODES, MEASUREMENTS];
+    pattern = new RegExp(parts.join("|"), "gu");
+    patternCache.set(key, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Replaces protected parts of the text with numbered placeholders.
+ * `protectedTerms` are brand names and other terms matched as whole words.
+ */
+export function maskText(text: string, protectedTerms: string[] = []): MaskedText {
+  const tokens: string[] = [];
+  const masked = text.replace(maskPattern(protectedTerms), (match) => {
+    tokens.push(match);
+    return `⟦${tokens.length}⟧`;
+  });
+  return { masked, tokens };
+}
+
+/**
+ * Whether the text contains a protected term and nothing else to
+ * translate: no words left once the terms, markup, numbers and codes are
+ * masked. "Royal Oak" and "<p>Royal Oak 15500ST</p>" are, "Royal Oak
+ * Chronograph" is not (unless that is a term too).
+ */
+export function isFullyProtected(text: string, protectedTerms: string[]): boolean {
+  if (protectedTerms.length === 0) return false;
+  const terms = new Set(protectedTerms.map((t) => t.trim()));
+  const { masked, tokens } = maskText(text, protectedTerms);
+  return tokens.some((token) => terms.has(token)) && !/\p{L}/u.test(masked);
+}
+
+/**
+ * Puts the originals back. Returns the restored text, or the problems if
+ * any placeholder is missing, repeated or unknown.
+ */
+export function unmaskText(
+  translated: string,
+  tokens: string[]
+): { text: string; problems: string[] } {
+  const seen = new Map<number, number>();
+  for (const [, n] of translated.matchAll(PLACEHOLDER_PATTERN)) {
+    seen.set(Number(n), (seen.get(Number(n)) ?? 0) + 1);
+  }
+
+  const lost = tokens.map((_, i) => i + 1).filter((n) => !seen.has(n));
+  const repeated = [...seen].filter(([n, count]) => n <= tokens.length && count > 1).map(([n]) => n);
+  const unknown = [...seen.keys()].filter((n) => n < 1 || n > tokens.length);
+
+  const problems: string[] = [];
+  const describe = (ns: number[]) =>
+    ns.map((n) => (tokens[n - 1] ? `⟦${n}⟧ (${tokens[n - 1]})` : `⟦${n}⟧`)).join(", ");
+  if (lost.length > 0) problems.push(`placeholders lost: ${describe(lost)}`);
+  if (repeated.length > 0) problems.push(`placeholders repeated: ${describe(repeated)}`);
+  if (unknown.length > 0) problems.push(`unknown placeholders: ${describe(unknown)}`);
+  if (problems.length > 0) return { text: translated, problems };
+
+  return {
+    text: translated.replace(PLACEHOLDER_PATTERN, (_, n) => tokens[Number(n) - 1]),
+    problems: [],
+  };
+}
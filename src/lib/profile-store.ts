@@ -0,0 +1,85 @@
+/**
+ * Industry Profile Store
+ *
+ * Saves custom industry profiles as a JSON document in the local data
+ * directory and resolves industry ids (built-in or profile) per request.
+ */
+
+import { randomUUID } from "crypto";
+import { readJsonFile, writeJsonFile } from "./data-store";
+import { getIndustry, type IndustryConfig } from "./industries";
+import {
+  isProfileId,
+  profileToIndustry,
+  PROFILE_ID_PREFIX,
+  type IndustryProfile,
+  type IndustryProfileInput,
+} from "./industry-profiles";
+
+const PROFILES_FILE = "industry-profiles.json";
+
+interface ProfilesDocument {
+  version: 1;
+  profiles: Record<string, IndustryProfile>;
+}
+
+async function readDocument(): Promise<ProfilesDocument> {
+  return readJsonFile<ProfilesDocument>(PROFILES_FILE, { version: 1, profiles: {} });
+}
+
+export async function listProfiles(): Promise<IndustryProfile[]> {
+  const doc = await readDocument();
+  return Object.values(doc.profiles).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getProfile(id: string): Promise<IndustryProfile | undefined> {
+  const doc = await readDocument();
+  return doc.profiles[id];
+}
+
+/**
+ * Creates a profile, or updates it when `input.id` names an existing one.
+ */
+export async function saveProfile(input: IndustryProfileInput): Promise<IndustryProfile> {
+  const doc = await readDocument();
+  const existing = input.id ? doc.profiles[input.id] : undefined;
+  if (input.id && !existing) throw new Error(`Unknown profile: ${input.id}`);
+
+  const profile: IndustryProfile = {
+    id: existing?.id ?? `${PROFILE_ID_PREFIX}${randomUUID()}`,
+    name: input.name.trim(),
+    description: (input.description ?? existing?.description ?? "").trim(),
+    context: input.context.trim(),
+    tone: (input.tone ?? existing?.tone ?? "").trim(),
+    spellingVariant: (input.spellingVariant ?? existing?.spellingVariant ?? "").trim(),
+    glossaries: input.glossaries ?? existing?.glossaries ?? {},
+    brandNames: (input.brandNames ?? existing?.brandNames ?? []).map((b) => b.trim()).filter(Boolean),
+    updatedAt: new Date().toISOString(),
+  };
+
+  doc.profiles[profile.id] = profile;
+  await writeJsonFile(PROFILES_FILE, doc);
+  return profile;
+}
+
+/** Returns false if there was no such profile */
+export async function deleteProfile(id: string): Promise<boolean> {
+  const doc = await readDocument();
+  if (!doc.profiles[id]) return false;
+  delete doc.profiles[id];
+  await writeJsonFile(PROFILES_FILE, doc);
+  return true;
+}
+
+/**
+ * Looks up a built-in industry or a saved profile by id. Built-in configs
+ * are returned as copies, so callers may adjust them per request.
+ */
+export async function resolveIndustry(id: string): Promise<IndustryConfig | undefined> {
+  if (isProfileId(id)) {
+    const profile = await getProfile(id);
+    return profile && profileToIndustry(profile);
+  }
+  const industry = getIndustry(id);
+  return industry && { ...industry };
+}
@@ -0,0 +1,46 @@
+/**
+ * Protected Terms
+ *
+ * Do-not-translate lists maintained by the user per industry: collection
+ * names, brand strings and other terms that must stay exactly as written,
+ * in any script. Values made up only of protected terms are not extracted
+ * for translation; inside longer texts the terms are masked before the
+ * text is sent to Claude.
+ */
+
+import { readJsonFile, writeJsonFile } from "./data-store";
+
+const PROTECTED_TERMS_FILE = "protected-terms.json";
+
+interface ProtectedTermsDocument {
+  version: 1;
+  /** industryId -> terms */
+  terms: Record<string, string[]>;
+}
+
+async function readDocument(): Promise<ProtectedTermsDocument> {
+  return readJsonFile<ProtectedTermsDocument>(PROTECTED_TERMS_FILE, { version: 1, terms: {} });
+}
+
+/**
+ * Returns the protected terms of an industry (empty if none).
+ */
+export async function getProtectedTerms(industryId: string): Promise<string[]> {
+  const doc = await readDocument();
+  return doc.terms[industryId] ?? [];
+}
+
+/**
+ * Replaces the protected terms of an industry. Blank and repeated entries
+ * are dropped; an empty list removes the industry's entry.
+ */
+export async function saveProtectedTerms(industryId: string, terms: string[]): Promise<string[]> {
+  const cleaned = [...new Set(terms.map((t) => t.trim()).filter(Boolean))];
+
+  const doc = await readDocument();
+  if (cleaned.length > 0) doc.terms[industryId] = cleaned;
+  else delete doc.terms[industryId];
+  await writeJsonFile(PROTECTED_TERMS_FILE, doc);
+
+  return cleaned;
+}
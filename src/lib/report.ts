@@ -0,0 +1,133 @@
+/**
+ * Translation Diff Report
+ *
+ * Lists every value a job changed in the feed, with where its translation
+ * came from, for QA sign-off. Exported as CSV (for spreadsheets) and as a
+ * self-contained HTML page.
+ */
+
+import { formatCsvRow } from "./csv";
+import { fieldLabel } from "./feed-formats";
+import type { TranslationSource } from "./translator";
+import { escapeText } from "./xml-tokenizer";
+
+/** Translator sources, plus reuse from the previous feed, manual edits and XLIFF imports */
+export type ReportSource = TranslationSource | "previous" | "edited" | "xliff";
+
+export interface ReportRow {
+  productId: string;
+  productTitle: string;
+  field: string;
+  original: string;
+  translation: string;
+  source: ReportSource;
+}
+
+export interface ReportInfo {
+  fileName: string;
+  sourceLang: string;
+  targetLang: string;
+  industry: string;
+}
+
+const SOURCE_LABELS: Record<ReportSource, string> = {
+  glossary: "Glossary",
+  memory: "Translation memory",
+  claude: "Claude",
+  previous: "Previous feed",
+  edited: "Manual edit",
+  xliff: "XLIFF import",
+};
+
+/**
+ * Picks the rows that changed: items with a translation that differs from
+ * the original. Items without a known source are skipped.
+ */
+export function buildReportRows(
+  items: {
+    productId: string;
+    productTitle: string;
+    field: string;
+    text: string;
+    translation: string | null;
+    source?: ReportSource | null;
+  }[]
+): ReportRow[] {
+  return items
+    .filter((item) => item.translation !== null && item.translation !== item.text && item.source)
+    .map((item) => ({
+      productId: item.productId,
+      productTitle: item.productTitle,
+      field: item.field,
+      original: item.text,
+      translation: item.translation!,
+      source: item.source!,
+    }));
+}
+
+export function reportToCsv(rows: ReportRow[]): string {
+  const lines = [
+    formatCsvRow(["Product ID", "Product Title", "Field", "Original", "Translation", "Source"]),
+    ...rows.map((row) =>
+      formatCsvRow([
+        row.productId,
+        row.productTitle,
+        fieldLabel(row.field),
+        row.original,
+        row.translation,
+        SOURCE_LABELS[row.source],
+      ])
+    ),
+  ];
+  // Byte order mark so spreadsheet apps read the file as UTF-8
+  return "\ufeff" + lines.join("\r\n") + "\r\n";
+}
+
+export function reportToHtml(rows: ReportRow[], info: ReportInfo): string {
+  const counts = new Map<ReportSource, number>();
+  for (const row of rows) counts.set(row.source, (counts.get(row.source) ?? 0) + 1);
+  const summary = [...counts.entries()]
+    .map(([source, count]) => `${SOURCE_LABELS[source]}: ${count}`)
+    .join(" &middot; ");
+
+  const body = rows
+    .map(
+      (row) => `<tr class="${row.source}">
+<td>${escapeText(row.productId)}</td>
+<td>${escapeText(row.productTitle)}</td>
+<td>${escapeText(fieldLabel(row.field))}</td>
+<td>${escapeText(row.original)}</td>
+<td>${escapeText(row.translation)}</td>
+<td>${SOURCE_LABELS[row.source]}</td>
+</tr>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Translation report - ${escapeText(info.fileName)} (${escapeText(info.targetLang)})</title>
+<style>
+body { font: 13px/1.4 system-ui, sans-serif; margin: 24px; color: #111; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; white-space: pre-wrap; word-break: break-word; }
+th { background: #f4f4f5; position: sticky; top: 0; }
+tr.edited td:last-child { color: #1d4ed8; }
+tr.glossary td:last-child, tr.memory td:last-child, tr.previous td:last-child { color: #047857; }
+</style>
+</head>
+<body>
+<h1>Translation report</h1>
+<p>${escapeText(info.fileName)} &middot; ${escapeText(info.sourceLang)} &rarr; ${escapeText(info.targetLang)} &middot; ${escapeText(info.industry)}</p>
+<p>${rows.length} changed values${summary ? ` (${summary})` : ""}</p>
+<table>
+<thead><tr><th>Product ID</th><th>Product Title</th><th>Field</th><th>Original</th><th>Translation</th><th>Source</th></tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
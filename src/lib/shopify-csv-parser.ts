@@ -0,0 +1,166 @@
+/**
+ * Shopify Product CSV Parser
+ *
+ * Reads Shopify's product export CSV: one row per variant or extra image,
+ * all rows of a product sharing its `Handle`, with the product-level
+ * columns (Title, Body (HTML), Type, Tags, option names, SEO) filled on
+ * the first row only. Cells are rewritten in place, quoted as needed, so
+ * the file re-imports into Shopify with only the translated cells changed.
+ */
+
+import { formatCsvValue, parseCsv, type CsvCell } from "./csv";
+import { positionAt } from "./xml-tokenizer";
+import {
+  createItemCollector,
+  defaultFields,
+  FeedFormatError,
+  writeSpans,
+  type ExtractOptions,
+  type FeedAdapter,
+  type FeedField,
+  type TranslatableField,
+  type TranslatableItem,
+} from "./feed-adapter";
+
+export const SHOPIFY_CSV_FIELDS: FeedField[] = [
+  { id: "title", label: "Product Title", group: "Core", defaultOn: true },
+  { id: "description", label: "Description (Body HTML)", group: "Core", defaultOn: true },
+  { id: "meta_title", label: "SEO Title", group: "SEO", defaultOn: false },
+  { id: "meta_description", label: "SEO Description", group: "SEO", defaultOn: true },
+  { id: "image_alt", label: "Image Alt Text", group: "SEO", defaultOn: true },
+  { id: "product_type", label: "Product Type", group: "Taxonomy", defaultOn: true },
+  { id: "tags", label: "Tags", group: "Taxonomy", defaultOn: false },
+  { id: "option_name", label: "Option Names", group: "Variants", defaultOn: true },
+  { id: "option_value", label: "Option Values", group: "Variants", defaultOn: true },
+];
+
+const COLUMN_FIELDS: Record<string, TranslatableField> = {
+  Title: "title",
+  "Body (HTML)": "description",
+  Type: "product_type",
+  Tags: "tags",
+  "SEO Title": "meta_title",
+  "SEO Description": "meta_description",
+  "Image Alt Text": "image_alt",
+};
+
+function columnField(header: string): TranslatableField | undefined {
+  const option = /^Option\d+ (Name|Value)$/.exec(header);
+  if (option) return option[1] === "Name" ? "option_name" : "option_value";
+  return COLUMN_FIELDS[header];
+}
+
+/** `Body (HTML)` -> `body_html`, `Option1 Value` -> `option1_value` */
+const columnKey = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+
+function headerCells(csv: string): string[] {
+  const firstLine = csv.slice(0, csv.search(/\r?\n|$/));
+  return (parseCsv(firstLine)[0] ?? []).map((cell) => cell.value.trim());
+}
+
+/**
+ * Parses the export and checks that it has a Handle column and that every
+ * row has as many cells as the header. Throws FeedFormatError otherwise.
+ */
+function readRows(csv: string): { header: string[]; rows: CsvCell[][] } {
+  const [headerRow, ...rows] = parseCsv(csv);
+  const header = (headerRow ?? []).map((cell) => cell.value.trim());
+  if (!header.includes("Handle")) {
+    throw new FeedFormatError("Not a Shopify product CSV: the Handle column is missing");
+  }
+  for (const row of rows) {
+    if (row.length !== header.length) {
+      const { line } = positionAt(csv, row[0].start);
+      throw new FeedFormatError(
+        `Row on line ${line} has ${row.length} columns, the header has ${header.length}`
+      );
+    }
+  }
+  return { header, rows };
+}
+
+/** Rows grouped by Handle, in file order; rows without a handle continue the previous product */
+function groupProducts(header: string[], rows: CsvCell[][]): { handle: string; rows: CsvCell[][] }[] {
+  const handleColumn = header.indexOf("Handle");
+  const products: { handle: string; rows: CsvCell[][] }[] = [];
+  for (const row of rows) {
+    const handle = row[handleColumn].value.trim();
+    const last = products[products.length - 1];
+    if (last && (!handle || handle === last.handle)) {
+      last.rows.push(row);
+    } else {
+      products.push({ handle: handle || `unknown-${products.length}`, rows: [row] });
+    }
+  }
+  return products;
+}
+
+/**
+ * Extracts the selected columns, with paths like
+ * `product[blue-shirt].row[2].option1_value` (row counted within the
+ * product). Throws FeedFormatError if the file is not a Shopify export.
+ */
+export function extractShopifyCsv(
+  csv: string,
+  sourceLang: string,
+  selectedFields?: Set<TranslatableField>,
+  options: ExtractOptions = {}
+): TranslatableItem[] {
+  const { header, rows } = readRows(csv);
+  const collector = createItemCollector(
+    sourceLang,
+    selectedFields || defaultFields(SHOPIFY_CSV_FIELDS),
+    options
+  );
+  const columns = header
+    .map((name, index) => ({ index, key: columnKey(name), field: columnField(name) }))
+    .filter((c): c is { index: number; key: string; field: TranslatableField } => !!c.field);
+  const titleColumn = header.indexOf("Title");
+
+  for (const product of groupProducts(header, rows)) {
+    product.rows.forEach((row, rowIndex) => {
+      for (const { index, key, field } of columns) {
+        const cell = row[index];
+        const span = { start: cell.start, end: cell.end };
+        collector.add(`row[${rowIndex}].${key}`, cell.value, field, span, "csv");
+      }
+    });
+    const title = titleColumn >= 0 ? product.rows[0][titleColumn].value : "";
+    collector.endProduct(product.handle, title || "Untitled");
+  }
+
+  return collector.items;
+}
+
+function writeCells(
+  csv: string,
+  items: TranslatableItem[],
+  translationFor: (item: TranslatableItem) => string | undefined
+): string {
+  return writeSpans(csv, items, translationFor, (_item, translated) => formatCsvValue(translated));
+}
+
+export const shopifyCsvAdapter: FeedAdapter = {
+  id: "shopify-csv",
+  name: "Shopify product CSV",
+  fileExtension: "csv",
+  mimeType: "text/csv",
+  fields: SHOPIFY_CSV_FIELDS,
+  detect: (content) => {
+    const header = headerCells(content);
+    return header.includes("Handle") && header.includes("Title");
+  },
+  validate: (csv) => {
+    readRows(csv);
+  },
+  extract: extractShopifyCsv,
+  applyTranslations: (csv, items, translations) =>
+    writeCells(csv, items, (item) => translations.get(item.text)),
+  applyItemTranslations: (csv, items, translationsByPath) =>
+    writeCells(csv, items, (item) => translationsByPath.get(item.path)),
+  listProductIds: (csv) => {
+    const { header, rows } = readRows(csv);
+    return groupProducts(header, rows).map((p) => p.handle);
+  },
+};
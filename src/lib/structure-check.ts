@@ -0,0 +1,153 @@
+/**
+ * Structural Integrity Checks
+ *
+ * The prompt asks Claude to leave markup, entities, numbers and URLs
+ * alone; these checks verify it. `checkStructure` compares one text with
+ * its translation, `checkOutputFeed` compares the whole translated feed
+ * with the input.
+ */
+
+import { FeedFormatError, type FeedAdapter } from "./feed-adapter";
+import { XmlParseError } from "./xml-tokenizer";
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g;
+const ENTITY_PATTERN = /&(?:[a-zA-Z][a-zA-Z0-9]*|#\d+|#x[0-9a-fA-F]+);/g;
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/g;
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+
+/** Attributes whose values are text meant for readers */
+const TRANSLATABLE_ATTRIBUTES = new Set(["alt", "title", "placeholder", "aria-label"]);
+
+/** Problems listed per kind before the rest are summarised */
+const MAX_LISTED = 3;
+
+interface Tag {
+  /** e.g. "<p>", "</p>"; "<br/>" and "<br>" are the same tag */
+  label: string;
+  /** Attributes that must survive unchanged, "name=value" */
+  fixedAttributes: string[];
+}
+
+function parseTags(text: string): Tag[] {
+  return [...text.matchAll(TAG_PATTERN)].map(([, closing, name, rest]) => {
+    const fixedAttributes = [...rest.replace(/\/\s*$/, "").matchAll(ATTRIBUTE_PATTERN)]
+      .filter(([, attr]) => !TRANSLATABLE_ATTRIBUTES.has(attr.toLowerCase()))
+      .map(([, attr, value = ""]) => `${attr.toLowerCase()}=${value.replace(/^["']|["']$/g, "")}`);
+    return {
+      label: `<${closing}${name.toLowerCase()}>`,
+      fixedAttributes,
+    };
+  });
+}
+
+/** Text outside tags, where numbers and URLs are compared */
+function visibleText(text: string): string {
+  return text.replace(TAG_PATTERN, " ");
+}
+
+function urls(text: string): string[] {
+  return [...visibleText(text).matchAll(URL_PATTERN)].map(([url]) => url.replace(/[.,;:!?)]+$/, ""));
+}
+
+/** Numbers with separators removed, so "1,5" and "1.5" compare equal */
+function numbers(text: string): string[] {
+  const withoutUrls = visibleText(text).replace(URL_PATTERN, " ").replace(ENTITY_PATTERN, " ");
+  return [...withoutUrls.matchAll(NUMBER_PATTERN)].map(([n]) => n.replace(/[.,]/g, ""));
+}
+
+/** Values of `expected` not found in `actual`, counting repeats */
+function missingValues(expected: string[], actual: string[]): string[] {
+  const remaining = new Map<string, number>();
+  for (const value of actual) remaining.set(value, (remaining.get(value) ?? 0) + 1);
+  return expected.filter((value) => {
+    const count = remaining.get(value) ?? 0;
+    if (count === 0) return true;
+    remaining.set(value, count - 1);
+    return false;
+  });
+}
+
+function list(values: string[]): string {
+  const shown = values.slice(0, MAX_LISTED).join(", ");
+  return values.length > MAX_LISTED ? `${shown} and ${values.length - MAX_LISTED} more` : shown;
+}
+
+/**
+ * Compares a text with its translation. Returns the problems found, empty
+ * if the translation kept the structure: the same tags in the same order,
+ * the same non-text attribute values, the same entities, and every number
+ * and URL of the original.
+ */
+export function checkStructure(original: string, translation: string): string[] {
+  const problems: string[] = [];
+
+  const originalTags = parseTags(original);
+  const translatedTags = parseTags(translation);
+  const tagMismatch = originalTags.findIndex((tag, i) => translatedTags[i]?.label !== tag.label);
+  if (tagMismatch !== -1 || translatedTags.length !== originalTags.length) {
+    const i = tagMismatch !== -1 ? tagMismatch : originalTags.length;
+    problems.push(
+      `HTML tags changed: expected ${originalTags[i]?.label ?? "no more tags"}, found ${
+        translatedTags[i]?.label ?? "no more tags"
+      } at tag ${i + 1}`
+    );
+  }
+  const changedAttributes = originalTags.flatMap((tag, i) =>
+    translatedTags[i]?.label === tag.label
+      ? missingValues(tag.fixedAttributes, translatedTags[i].fixedAttributes)
+      : []
+  );
+  if (changedAttributes.length > 0) problems.push(`attributes changed: ${list(changedAttributes)}`);
+
+  const originalEntities = [...original.matchAll(ENTITY_PATTERN)].map(([e]) => e);
+  const translatedEntities = [...translation.matchAll(ENTITY_PATTERN)].map(([e]) => e);
+  const lostEntities = missingValues(originalEntities, translatedEntities);
+  const addedEntities = missingValues(translatedEntities, originalEntities);
+  if (lostEntities.length > 0) problems.push(`entities missing: ${list(lostEntities)}`);
+  if (addedEntities.length > 0) problems.push(`entities added: ${list(addedEntities)}`);
+
+  const lostNumbers = missingValues(numbers(original), numbers(translation));
+  if (lostNumbers.length > 0) problems.push(`numbers missing: ${list(lostNumbers)}`);
+
+  const lostUrls = missingValues(urls(original), urls(translation));
+  if (lostUrls.length > 0) problems.push(`URLs missing: ${list(lostUrls)}`);
+
+  return problems;
+}
+
+/**
+ * Checks that the translated feed is still valid in its format (e.g.
+ * well-formed XML) with the same products, in the same order, as the
+ * input feed. Returns the problems found, empty if it passes.
+ */
+export function checkOutputFeed(adapter: FeedAdapter, input: string, output: string): string[] {
+  try {
+    adapter.validate(output);
+  } catch (err) {
+    if (err instanceof XmlParseError) {
+      return [`output is not well-formed XML: ${err.message}`];
+    }
+    if (err instanceof FeedFormatError) {
+      return [`output is not a valid ${adapter.name} file: ${err.message}`];
+    }
+    throw err;
+  }
+
+  const inputIds = adapter.listProductIds(input);
+  const outputIds = adapter.listProductIds(output);
+  const problems: string[] = [];
+
+  if (outputIds.length !== inputIds.length) {
+    problems.push(`product count changed from ${inputIds.length} to ${outputIds.length}`);
+  }
+  const lost = missingValues(inputIds, outputIds);
+  const added = missingValues(outputIds, inputIds);
+  if (lost.length > 0) problems.push(`product ids missing: ${list(lost)}`);
+  if (added.length > 0) problems.push(`unexpected product ids: ${list(added)}`);
+  if (problems.length === 0 && outputIds.some((id, i) => id !== inputIds[i])) {
+    problems.push("products are in a different order");
+  }
+
+  return problems;
+}
@@ -0,0 +1,106 @@
+/**
+ * Glossary Term Mining
+ *
+ * Proposes glossary entries from a source feed and its human translation.
+ * Both feeds are extracted with the same settings, so an item's path
+ * (e.g. `product[42].category_property[1].value[0]`) identifies the same
+ * value in each; the pairs of recurring short fields become candidates.
+ */
+
+import type { TranslatableField, TranslatableItem } from "./feed-adapter";
+
+/** Fields that hold terms rather than prose */
+export const TERM_FIELDS: TranslatableField[] = [
+  "category",
+  "category_property_name",
+  "category_property_value",
+  "option_name",
+  "option_value",
+  "product_type",
+  "tags",
+  "color",
+  "material",
+  "pattern",
+  "attribute_value",
+  "product_detail_name",
+  "product_detail_value",
+];
+
+/** Longer values are phrases, not terms */
+const MAX_TERM_LENGTH = 60;
+
+export interface TermCandidate {
+  source: string;
+  /** The most frequent translation */
+  target: string;
+  /** Times the source text was aligned with a translation */
+  occurrences: number;
+  /** Share of occurrences that used `target`, 0-1 */
+  agreement: number;
+  /** Other translations seen for the same source, most frequent first */
+  alternatives: string[];
+  fields: TranslatableField[];
+}
+
+export interface MineOptions {
+  /** Minimum aligned occurrences for a candidate (default 2) */
+  minOccurrences?: number;
+  /** Source terms to leave out, e.g. those already in a glossary */
+  exclude?: Set<string>;
+}
+
+function isTerm(text: string): boolean {
+  return text.length <= MAX_TERM_LENGTH && !/[<>\n]/.test(text);
+}
+
+/**
+ * Aligns the two extractions by path and returns candidates, most
+ * frequent first. Values left untranslated in the human feed are ignored.
+ */
+export function mineGlossaryTerms(
+  sourceItems: TranslatableItem[],
+  translatedItems: TranslatableItem[],
+  options: MineOptions = {}
+): TermCandidate[] {
+  const { minOccurrences = 2, exclude } = options;
+  const translatedByPath = new Map(translatedItems.map((item) => [item.path, item.text]));
+
+  // source text -> translation -> count
+  const pairs = new Map<string, Map<string, number>>();
+  const fields = new Map<string, Set<TranslatableField>>();
+
+  for (const item of sourceItems) {
+    if (!TERM_FIELDS.includes(item.field)) continue;
+    const source = item.text.trim();
+    const target = translatedByPath.get(item.path)?.trim();
+    if (!target || !isTerm(source) || !isTerm(target) || source === target) continue;
+    if (exclude?.has(source)) continue;
+
+    let targets = pairs.get(source);
+    if (!targets) {
+      targets = new Map();
+      pairs.set(source, targets);
+      fields.set(source, new Set());
+    }
+    targets.set(target, (targets.get(target) ?? 0) + 1);
+    fields.get(source)!.add(item.field);
+  }
+
+  const candidates: TermCandidate[] = [];
+  for (const [source, targets] of pairs) {
+    const ranked = [...targets.entries()].sort((a, b) => b[1] - a[1]);
+    const occurrences = ranked.reduce((sum, [, count]) => sum + count, 0);
+    if (occurrences < minOccurrences) continue;
+
+    candidates.push({
+      source,
+      target: ranked[0][0],
+      occurrences,
+      agreement: ranked[0][1] / occurrences,
+      alternatives: ranked.slice(1).map(([target]) => target),
+      fields: [...fields.get(source)!],
+    });
+  }
+
+  return candidates.sort((a, b) => b.occurrences - a.occurrences || a.source.localeCompare(b.source));
+}
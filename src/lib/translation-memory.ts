@@ -0,0 +1,85 @@
+/**
+ * Translation Memory
+ *
+ * Remembers every translation Claude produced, keyed by
+ * (source text, source language, target language, industry id), so
+ * unchanged texts in the next upload are reused instead of re-translated.
+ * Stored as a JSON document in the local data directory.
+ */
+
+import { readJsonFile, writeJsonFile } from "./data-store";
+
+const MEMORY_FILE = "translation-memory.json";
+
+interface MemoryDocument {
+  version: 1;
+  /** "sourceLang|targetLang|industryId" -> source text -> translation */
+  entries: Record<string, Record<string, string>>;
+}
+
+export interface TranslationMemory {
+  get(text: string, sourceLang: string, targetLang: string, industryId: string): string | undefined;
+  set(
+    text: string,
+    translation: string,
+    sourceLang: string,
+    targetLang: string,
+    industryId: string
+  ): void;
+  /** Persists entries added since loading. */
+  save(): Promise<void>;
+}
+
+/**
+ * Own entries only: texts such as "constructor" must not resolve to
+ * inherited Object properties.
+ */
+function lookup(
+  entries: MemoryDocument["entries"],
+  key: string,
+  text: string
+): string | undefined {
+  const texts = entries[key];
+  return texts && Object.hasOwn(texts, text) ? texts[text] : undefined;
+}
+
+function scopeKey(sourceLang: string, targetLang: string, industryId: string): string {
+  return `${sourceLang}|${targetLang}|${industryId}`;
+}
+
+/**
+ * Loads the translation memory from disk (empty if none exists yet).
+ */
+export async function loadTranslationMemory(): Promise<TranslationMemory> {
+  const doc = await readJsonFile<MemoryDocument>(MEMORY_FILE, { version: 1, entries: {} });
+  const added: MemoryDocument["entries"] = {};
+
+  return {
+    get(text, sourceLang, targetLang, industryId) {
+      const key = scopeKey(sourceLang, targetLang, industryId);
+      return lookup(added, key, text) ?? lookup(doc.entries, key, text);
+    },
+
+    set(text, translation, sourceLang, targetLang, industryId) {
+      const key = scopeKey(sourceLang, targetLang, industryId);
+      // A text of "__proto__" is stored like any other
+      (added[key] ??= Object.create(null))[text] = translation;
+    },
+
+    async save() {
+      if (Object.keys(added).length === 0) return;
+
+      // Re-read before writing so entries saved by a concurrent job are kept
+      const latest = await readJsonFile<MemoryDocument>(MEMORY_FILE, { version: 1, entries: {} });
+      for (const [key, texts] of Object.entries(added)) {
+        latest.entries[key] = { ...latest.entries[key], ...texts };
+      }
+      await writeJsonFile(MEMORY_FILE, latest);
+
+      for (const [key, texts] of Object.entries(added)) {
+        doc.entries[key] = { ...doc.entries[key], ...texts };
+        delete added[key];
+      }
+    },
+  };
+}
@@ -1,103 +1,436 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { IndustryConfig } from "./industries";
+import { getGlossary, type IndustryConfig } from "./industries";
+import { splitHtmlBlocks, splitPadding } from "./html-chunker";
+import type { TranslationMemory } from "./translation-memory";
+import { createAdaptivePool, type AdaptivePool } from "./adaptive-pool";
+import { findGlossaryTerms, findMissingTerms, type GlossaryTerm } from "./glossary";
+import { checkStructure } from "./structure-check";
+import { maskText, unmaskText, type MaskedText } from "./placeholders";
 
-const BATCH_SIZE = 40; // number of texts per API call
+const MAX_BATCH_ITEMS = 60; // upper bound on texts per API call, however short
+const MAX_BATCH_INPUT_TOKENS = 12_000; // estimated tokens of texts per API call
+const MAX_BATCH_OUTPUT_TOKENS = 5_000; // estimated response size, well under max_tokens
+const MAX_OUTPUT_TOKENS = 8192;
 const MAX_RETRIES = 3;
+const INITIAL_CONCURRENCY = 4; // parallel API calls at the start of a job
+const MAX_CONCURRENCY = 8;
+const MAX_THROTTLE_RETRIES = 8; // 429/529 responses tolerated per request
+
+/** A single text sent to Claude: either a whole text or one chunk of a long one */
+interface TranslationUnit {
+  text: string;
+  fields: string[];
+  /** Extra context shown next to the field types, e.g. which part of which product */
+  note?: string;
+  /** Glossary terms found in the text; their targets must appear in the translation */
+  terms?: GlossaryTerm[];
+  /** The text as sent to Claude, with tags, numbers, codes and brand names masked */
+  mask?: MaskedText;
+}
 
 interface TranslationBatch {
-  texts: string[];
-  fields: string[][]; // field types for each text
+  units: TranslationUnit[];
+}
+
+/**
+ * How much longer than its source a translation's JSON tends to be, per
+ * field type. HTML fields grow the most: attribute quotes are escaped in
+ * JSON and target languages are often wordier than the source.
+ */
+const OUTPUT_FACTORS: Partial<Record<string, number>> = {
+  description: 1.5,
+  short_description: 1.5,
+  tab_description: 1.5,
+  meta_description: 1.3,
+};
+const DEFAULT_OUTPUT_FACTOR = 1.2;
+const PER_ITEM_OVERHEAD_TOKENS = 10; // numbering, field info, JSON punctuation
+
+/** Rough token count; Cyrillic and Greek average well under 3 chars per token */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3);
+}
+
+function estimateOutputTokens(unit: TranslationUnit): number {
+  const factor = Math.max(
+    DEFAULT_OUTPUT_FACTOR,
+    ...unit.fields.map((f) => OUTPUT_FACTORS[f] ?? DEFAULT_OUTPUT_FACTOR)
+  );
+  return Math.ceil(estimateTokens(unit.text) * factor) + PER_ITEM_OVERHEAD_TOKENS;
+}
+
+/**
+ * Packs units into batches by estimated input and output token size, so a
+ * batch of short option values can hold many items while long HTML tabs
+ * are sent a few at a time.
+ */
+function buildBatches(units: TranslationUnit[]): TranslationBatch[] {
+  const batches: TranslationBatch[] = [];
+  let current: TranslationUnit[] = [];
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for (const unit of units) {
+    const unitInput = estimateTokens(unit.text) + PER_ITEM_OVERHEAD_TOKENS;
+    const unitOutput = estimateOutputTokens(unit);
+
+    if (
+      current.length > 0 &&
+      (current.length >= MAX_BATCH_ITEMS ||
+        inputTokens + unitInput > MAX_BATCH_INPUT_TOKENS ||
+        outputTokens + unitOutput > MAX_BATCH_OUTPUT_TOKENS)
+    ) {
+      batches.push({ units: current });
+      current = [];
+      inputTokens = 0;
+      outputTokens = 0;
+    }
+
+    current.push(unit);
+    inputTokens += unitInput;
+    outputTokens += unitOutput;
+  }
+  if (current.length > 0) batches.push({ units: current });
+
+  return batches;
+}
+
+export interface TranslateOptions {
+  /** Consulted after the glossary; new Claude translations are added to it */
+  memory?: TranslationMemory;
+  /** Extra terms (e.g. the user's glossary), merged over the industry's glossary for the language pair */
+  glossary?: Record<string, string>;
+  /** Do-not-translate terms, masked like the industry's brand names */
+  protectedTerms?: string[];
+}
+
+/** Where a translation came from */
+export type TranslationSource = "glossary" | "memory" | "claude";
+
+export interface TranslationOutcome {
+  /** original -> translated text */
+  translations: Map<string, string>;
+  /** original -> where its translation came from */
+  sources: Map<string, TranslationSource>;
+  /** Texts found in the translation memory */
+  memoryHits: number;
+  /** Texts looked up in the translation memory but not found */
+  memoryMisses: number;
+  /** Texts that could not be translated; they are absent from `translations` */
+  failed: FailedText[];
+  /** Translated texts that still lack required glossary terms after retries */
+  glossaryWarnings: GlossaryWarning[];
+}
+
+export interface GlossaryWarning {
+  text: string;
+  /** Target terms that should appear in the translation but do not */
+  missingTerms: string[];
+}
+
+export interface FailedText {
+  text: string;
+  error: string;
+}
+
+/** A text to translate, as handed in by the caller */
+interface TextItem {
+  text: string;
+  fields: string[];
+  productTitle?: string;
+  /** For mixed-language texts: the ranges to translate; the rest is kept as is */
+  sourceSegments?: { start: number; end: number }[];
+}
+
+/**
+ * Expands texts into translation units. Long HTML texts are split at block
+ * boundaries into chunks; each chunk is its own unit, annotated with its
+ * position and product so Claude keeps the context. Of mixed-language
+ * texts only the source-language segments become units.
+ * Returns the units plus the chunk layout needed to reassemble each text.
+ */
+function buildUnits(texts: TextItem[]): {
+  units: TranslationUnit[];
+  layouts: Map<string, ReturnType<typeof splitPadding>[]>;
+} {
+  const units = new Map<string, TranslationUnit>();
+  const layouts = new Map<string, ReturnType<typeof splitPadding>[]>();
+
+  for (const item of texts) {
+    const product = item.productTitle ? ` of "${item.productTitle}"` : "";
+
+    if (item.sourceSegments) {
+      // Everything between the segments is already translated and becomes
+      // the padding around them
+      const parts: ReturnType<typeof splitPadding>[] = [];
+      let last = 0;
+      for (const { start, end } of item.sourceSegments) {
+        parts.push({ lead: item.text.slice(last, start), core: item.text.slice(start, end), trail: "" });
+        last = end;
+      }
+      parts.push({ lead: item.text.slice(last), core: "", trail: "" });
+      layouts.set(item.text, parts);
+      for (const part of parts) {
+        if (!part.core || units.has(part.core)) continue;
+        units.set(part.core, {
+          text: part.core,
+          fields: item.fields,
+          note: `untranslated sentence of a partly translated text${product}`,
+        });
+      }
+      continue;
+    }
+
+    const chunks = splitHtmlBlocks(item.text);
+    if (chunks.length === 1) {
+      if (!units.has(item.text)) units.set(item.text, { text: item.text, fields: item.fields });
+      continue;
+    }
+
+    const parts = chunks.map(splitPadding);
+    layouts.set(item.text, parts);
+    parts.forEach((part, i) => {
+      if (!part.core || units.has(part.core)) return;
+      units.set(part.core, {
+        text: part.core,
+        fields: item.fields,
+        note: `part ${i + 1} of ${parts.length}${product}`,
+      });
+    });
+  }
+
+  return { units: [...units.values()], layouts };
 }
 
 /**
  * Translates an array of text items using Claude API with industry context.
- * Returns a Map of original -> translated text.
+ * Texts are resolved from the glossary for the language pair first, then the translation memory
+ * (if given); only the rest go to Claude. Long texts are translated chunk
+ * by chunk and reassembled; of mixed-language texts only the source-language
+ * sentences are translated.
  */
 export async function translateTexts(
-  texts: { text: string; fields: string[] }[],
+  texts: TextItem[],
   sourceLang: string,
   targetLang: string,
   industry: IndustryConfig,
   apiKey: string,
-  onProgress?: (completed: number, total: number) => void
-): Promise<Map<string, string>> {
-  const client = new Anthropic({ apiKey });
+  onProgress?: (completed: number, total: number) => void,
+  options: TranslateOptions = {}
+): Promise<TranslationOutcome> {
+  const { memory } = options;
+  const glossary = { ...getGlossary(industry, sourceLang, targetLang), ...options.glossary };
+  // Throttling is handled by the pool below, so the SDK must not retry on its own
+  const client = new Anthropic({ apiKey, maxRetries: 0 });
+  const pool = createAdaptivePool({
+    initialConcurrency: INITIAL_CONCURRENCY,
+    maxConcurrency: MAX_CONCURRENCY,
+  });
   const translations = new Map<string, string>();
+  const sources = new Map<string, TranslationSource>();
+  let memoryHits = 0;
+  let memoryMisses = 0;
 
-  // First, apply glossary matches directly
+  // First, apply glossary matches directly, then the translation memory
   for (const item of texts) {
-    const glossaryMatch = industry.glossary[item.text];
+    const glossaryMatch = glossary[item.text];
     if (glossaryMatch) {
       translations.set(item.text, glossaryMatch);
+      sources.set(item.text, "glossary");
+      continue;
+    }
+
+    if (memory) {
+      const remembered = memory.get(item.text, sourceLang, targetLang, industry.id);
+      if (remembered !== undefined) {
+        translations.set(item.text, remembered);
+        sources.set(item.text, "memory");
+        memoryHits++;
+      } else {
+        memoryMisses++;
+      }
     }
   }
 
-  // Filter out glossary-matched items
+  // Filter out glossary- and memory-matched items
   const remaining = texts.filter((t) => !translations.has(t.text));
 
   if (remaining.length === 0) {
     onProgress?.(texts.length, texts.length);
-    return translations;
+    return { translations, sources, memoryHits, memoryMisses, failed: [], glossaryWarnings: [] };
   }
 
-  // Batch remaining items
-  const batches: TranslationBatch[] = [];
-  for (let i = 0; i < remaining.length; i += BATCH_SIZE) {
-    batches.push({
-      texts: remaining.slice(i, i + BATCH_SIZE).map((t) => t.text),
-      fields: remaining.slice(i, i + BATCH_SIZE).map((t) => t.fields),
-    });
+  // Batch remaining items; progress is counted in units, so long texts
+  // advance the bar chunk by chunk
+  const { units, layouts } = buildUnits(remaining);
+  const protectedTerms = [...(industry.brandNames ?? []), ...(options.protectedTerms ?? [])];
+  for (const unit of units) {
+    unit.terms = findGlossaryTerms(unit.text, glossary, sourceLang);
+    unit.mask = maskText(unit.text, protectedTerms);
   }
+  const batches = buildBatches(units);
 
+  const total = texts.length - remaining.length + units.length;
   let completed = texts.length - remaining.length;
-  onProgress?.(completed, texts.length);
-
-  // Process batches
-  for (const batch of batches) {
-    const batchTranslations = await translateBatch(
-      client,
-      batch,
-      sourceLang,
-      targetLang,
-      industry
-    );
+  onProgress?.(completed, total);
+
+  // Process batches in parallel; the pool bounds how many calls are in flight.
+  // Texts that still fail after their retries are recorded and the job goes
+  // on; only an invalid API key stops everything.
+  const unitTranslations = new Map<string, string>();
+  const unitErrors = new Map<string, string>();
+  const unitWarnings = new Map<string, string[]>();
+  await Promise.all(
+    batches.map(async (batch) => {
+      const result = await translateBatch(
+        client,
+        pool,
+        batch,
+        sourceLang,
+        targetLang,
+        industry,
+        glossary
+      );
 
-    for (const [original, translated] of batchTranslations) {
-      translations.set(original, translated);
+      result.translations.forEach((translated, original) => unitTranslations.set(original, translated));
+      result.errors.forEach((error, original) => unitErrors.set(original, error));
+      result.warnings.forEach((missing, original) => unitWarnings.set(original, missing));
+
+      completed += batch.units.length;
+      onProgress?.(completed, total);
+    })
+  );
+
+  // Reassemble chunked texts from their translated parts; a text with any
+  // failed part is reported as failed as a whole
+  const failed: FailedText[] = [];
+  const glossaryWarnings: GlossaryWarning[] = [];
+  for (const item of remaining) {
+    const cores = (layouts.get(item.text) ?? [{ core: item.text }]).map((p) => p.core).filter(Boolean);
+    const failedCore = cores.find((core) => !unitTranslations.has(core));
+    if (failedCore !== undefined) {
+      failed.push({ text: item.text, error: unitErrors.get(failedCore) ?? "Not translated" });
+      continue;
     }
 
-    completed += batch.texts.length;
-    onProgress?.(completed, texts.length);
+    const missingTerms = [...new Set(cores.flatMap((core) => unitWarnings.get(core) ?? []))];
+    if (missingTerms.length > 0) glossaryWarnings.push({ text: item.text, missingTerms });
+
+    const parts = layouts.get(item.text);
+    const translated = parts
+      ? parts.map((p) => p.lead + (p.core ? unitTranslations.get(p.core)! : "") + p.trail).join("")
+      : unitTranslations.get(item.text)!;
+    translations.set(item.text, translated);
+    sources.set(item.text, "claude");
+    memory?.set(item.text, translated, sourceLang, targetLang, industry.id);
+  }
+
+  return { translations, sources, memoryHits, memoryMisses, failed, glossaryWarnings };
+}
+
+/**
+ * Whether the API asked us to slow down: 429 rate limit or 529 overloaded.
+ */
+function isThrottled(err: unknown): err is InstanceType<typeof Anthropic.APIError> {
+  return err instanceof Anthropic.APIError && (err.status === 429 || err.status === 529);
+}
+
+/**
+ * How long to wait before retrying a throttled request. Uses the
+ * retry-after headers when present, otherwise exponential backoff.
+ */
+function throttleDelayMs(err: InstanceType<typeof Anthropic.APIError>, attempt: number): number {
+  const retryAfterMs = Number(err.headers?.["retry-after-ms"]);
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = err.headers?.["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (seconds > 0) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  return Math.min(60_000, 1000 * 2 ** attempt);
+}
+
+/**
+ * Sends one request through the pool, waiting out throttling responses
+ * (which also lowers the pool's concurrency) before trying again.
+ */
+async function createMessage(
+  client: Anthropic,
+  pool: AdaptivePool,
+  params: Anthropic.MessageCreateParamsNonStreaming
+): Promise<Anthropic.Message> {
+  for (let throttles = 0; ; throttles++) {
+    try {
+      return await pool.run(() => client.messages.create(params));
+    } catch (err) {
+      if (!isThrottled(err) || throttles >= MAX_THROTTLE_RETRIES) throw err;
+      pool.throttle(throttleDelayMs(err, throttles));
+    }
   }
+}
 
-  return translations;
+/** Outcome of one batch: what was translated and why the rest was not */
+interface BatchResult {
+  translations: Map<string, string>;
+  /** unit text -> error message */
+  errors: Map<string, string>;
+  /** unit text -> required glossary targets missing from its translation */
+  warnings: Map<string, string[]>;
+}
+
+/**
+ * Reads the `[{"id": 1, "t": "..."}]` response into id -> translation.
+ * Malformed entries and repeated ids are dropped, so only the affected
+ * texts are re-requested.
+ */
+function parseTranslations(text: string): Map<number, string> {
+  // Strip markdown code fences if present
+  let jsonText = text.trim();
+  if (jsonText.startsWith("```")) {
+    jsonText = jsonText
+      .replace(/^```(?:json)?\s*\n?/, "")
+      .replace(/\n?\s*```$/, "");
+  }
+
+  const parsed: unknown = JSON.parse(jsonText);
+  if (!Array.isArray(parsed)) throw new Error("Response is not a JSON array");
+
+  const byId = new Map<number, string>();
+  const repeated = new Set<number>();
+  for (const entry of parsed) {
+    const { id, t } = (entry ?? {}) as { id?: unknown; t?: unknown };
+    if (typeof id !== "number" || !Number.isInteger(id) || typeof t !== "string") continue;
+    if (byId.has(id)) repeated.add(id);
+    byId.set(id, t);
+  }
+  // Two answers for one id means the model lost track of the numbering there
+  for (const id of repeated) byId.delete(id);
+
+  return byId;
 }
 
 async function translateBatch(
   client: Anthropic,
+  pool: AdaptivePool,
   batch: TranslationBatch,
   sourceLang: string,
   targetLang: string,
-  industry: IndustryConfig
-): Promise<Map<string, string>> {
+  industry: IndustryConfig,
+  glossary: Record<string, string>
+): Promise<BatchResult> {
   const glossaryContext =
-    Object.entries(industry.glossary).length > 0
+    Object.entries(glossary).length > 0
       ? `\n\nKnown terminology (always use these exact translations when these terms appear):\n${Object.entries(
-          industry.glossary
+          glossary
         )
           .map(([k, v]) => `"${k}" → "${v}"`)
           .join("\n")}`
       : "";
 
-  const numberedTexts = batch.texts
-    .map((text, i) => {
-      const fieldInfo = batch.fields[i].join(", ");
-      // Truncate very long texts for the prompt but keep full text for matching
-      const displayText = text.length > 500 ? text.substring(0, 500) + "..." : text;
-      return `[${i + 1}] (${fieldInfo}) ${displayText}`;
-    })
-    .join("\n\n");
-
   const systemPrompt = `${industry.context}
 
 You are translating product feed content from ${getLanguageName(sourceLang)} to ${getLanguageName(targetLang)}.
@@ -105,55 +438,112 @@ ${glossaryContext}
 
 CRITICAL RULES:
 1. Translate ONLY the text content. Do NOT modify any XML/HTML tags, attributes, or structure.
-2. Preserve all HTML entities (e.g. &lt; &gt; &amp; &quot;) exactly as they are.
+2. Placeholders such as ⟦1⟧ stand for markup, entities, reference numbers, measurements and brand names. Keep every placeholder exactly as it is: copy each one exactly once, unchanged, placing it where it belongs in the translated sentence.
 3. Keep product names, brand names, collection names, and reference numbers untranslated.
 4. Keep measurements and numbers as-is.
-5. For tab descriptions containing HTML-encoded tables, translate only the visible text content within the table cells.
+5. For tab descriptions containing HTML tables, translate only the visible text content within the table cells.
 6. Use professional, industry-appropriate terminology - never literal translations.
-7. Respond with ONLY the JSON array, no markdown formatting or explanation.`;
+7. Texts marked "part N of M" are consecutive pieces of one long HTML text. Translate each piece on its own, keeping any tags that are opened or closed in another piece exactly where they are.
+8. Respond with ONLY the JSON array, no markdown formatting or explanation.`;
 
-  const userPrompt = `Translate the following ${batch.texts.length} texts. Each is numbered and shows its field type in parentheses.
+  const translations = new Map<string, string>();
+  const warnings = new Map<string, string[]>();
+  /** unit text -> why its last translation was rejected (lost placeholders or broken structure) */
+  const structureProblems = new Map<string, string[]>();
+  let pending = batch.units;
+  let lastError: Error | null = null;
+  let truncated = false;
 
-Return a JSON array with exactly ${batch.texts.length} strings, where index 0 is the translation of text [1], index 1 is the translation of text [2], etc.
+  for (let attempt = 0; attempt < MAX_RETRIES && pending.length > 0; attempt++) {
+    const numberedTexts = pending
+      .map((unit, i) => {
+        let fieldInfo = unit.fields.join(", ") + (unit.note ? `; ${unit.note}` : "");
+        if (unit.terms?.length) {
+          fieldInfo += `; required terms: ${unit.terms.map((t) => `"${t.source}" → "${t.target}"`).join(", ")}`;
+        }
+        const missed = warnings.get(unit.text);
+        if (missed) {
+          fieldInfo += `; the previous translation left out ${missed.map((t) => `"${t}"`).join(", ")}`;
+        }
+        const broken = structureProblems.get(unit.text);
+        if (broken) {
+          fieldInfo += `; the previous translation was rejected: ${broken.join("; ")}`;
+        }
+        return `[${i + 1}] (${fieldInfo}) ${unit.mask?.masked ?? unit.text}`;
+      })
+      .join("\n\n");
 
-${numberedTexts}`;
+    const userPrompt = `Translate the following ${pending.length} texts. Each is numbered and shows its field type in parentheses.
 
-  let lastError: Error | null = null;
+Return a JSON array with one object per text: {"id": <the text's number>, "t": "<translation>"}. For example: [{"id": 1, "t": "..."}, {"id": 2, "t": "..."}]
+
+${numberedTexts}`;
 
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
     try {
-      const response = await client.messages.create({
+      const response = await createMessage(client, pool, {
         model: "claude-sonnet-4-20250514",
-        max_tokens: 8192,
+        max_tokens: MAX_OUTPUT_TOKENS,
         system: systemPrompt,
         messages: [{ role: "user", content: userPrompt }],
       });
 
+      // The estimate was too low: retrying the same texts would be cut off
+      // again, so split them instead (below). A single text cannot be split
+      // further and fails without paying for the same request again.
+      if (response.stop_reason === "max_tokens") {
+        if (pending.length > 1) {
+          truncated = true;
+        } else {
+          lastError = new Error("Translation of a single text exceeded the response size limit");
+        }
+        break;
+      }
+
       const content = response.content[0];
       if (content.type !== "text") throw new Error("Unexpected response type");
 
-      // Parse the JSON response - strip markdown code fences if present
-      let jsonText = content.text.trim();
-      if (jsonText.startsWith("```")) {
-        jsonText = jsonText
-          .replace(/^```(?:json)?\s*\n?/, "")
-          .replace(/\n?\s*```$/, "");
-      }
+      // Keep every text that came back under its own id; re-request the
+      // ones that are missing, lost a placeholder or changed the markup
+      // (rejected), or lack a required glossary term. For term misses the last translation is
+      // kept either way, so they never lose a text.
+      const byId = parseTranslations(content.text);
+      const isLastAttempt = attempt === MAX_RETRIES - 1;
+      let notReturned = 0;
+      const retry = pending.filter((unit, i) => {
+        const returned = byId.get(i + 1);
+        if (returned === undefined) {
+          notReturned++;
+          return true;
+        }
 
-      const translated: string[] = JSON.parse(jsonText);
+        const unmasked = unit.mask
+          ? unmaskText(returned, unit.mask.tokens)
+          : { text: returned, problems: [] };
+        const translated = unmasked.text;
+        const problems =
+          unmasked.problems.length > 0 ? unmasked.problems : checkStructure(unit.text, translated);
+        if (problems.length > 0) {
+          structureProblems.set(unit.text, problems);
+          return true;
+        }
+        structureProblems.delete(unit.text);
+        translations.set(unit.text, translated);
 
-      if (translated.length !== batch.texts.length) {
-        throw new Error(
-          `Expected ${batch.texts.length} translations, got ${translated.length}`
-        );
-      }
+        const missingTerms = findMissingTerms(translated, unit.terms ?? []);
+        if (missingTerms.length === 0) {
+          warnings.delete(unit.text);
+          return false;
+        }
+        warnings.set(unit.text, missingTerms);
+        return !isLastAttempt;
+      });
 
-      const result = new Map<string, string>();
-      for (let i = 0; i < batch.texts.length; i++) {
-        result.set(batch.texts[i], translated[i]);
+      if (notReturned > 0) {
+        lastError = new Error(`No translation returned for ${notReturned} of ${pending.length} texts`);
       }
-      return result;
+      pending = retry;
     } catch (err) {
+      if (err instanceof Anthropic.AuthenticationError) throw err;
       lastError = err as Error;
       if (attempt < MAX_RETRIES - 1) {
         await new Promise((r) => setTimeout(r, 2000 * (attempt + 1)));
@@ -161,7 +551,32 @@ ${numberedTexts}`;
     }
   }
 
-  throw lastError || new Error("Translation failed after retries");
+  const errors = new Map<string, string>();
+
+  if (truncated) {
+    const middle = Math.ceil(pending.length / 2);
+    const halves = await Promise.all(
+      [pending.slice(0, middle), pending.slice(middle)].map((units) =>
+        translateBatch(client, pool, { units }, sourceLang, targetLang, industry, glossary)
+      )
+    );
+    for (const half of halves) {
+      half.translations.forEach((translated, text) => translations.set(text, translated));
+      half.errors.forEach((error, text) => errors.set(text, error));
+      half.warnings.forEach((missing, text) => warnings.set(text, missing));
+    }
+    return { translations, errors, warnings };
+  }
+
+  // Texts still pending without any translation have failed; those with a
+  // translation only missed glossary terms and keep their warning
+  const message = lastError?.message ?? "Translation failed after retries";
+  for (const unit of pending) {
+    if (translations.has(unit.text)) continue;
+    const problems = structureProblems.get(unit.text);
+    errors.set(unit.text, problems ? `Rejected: ${problems.join("; ")}` : message);
+  }
+  return { translations, errors, warnings };
 }
 
 function getLanguageName(code: string): string {
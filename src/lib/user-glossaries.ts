@@ -0,0 +1,62 @@
+/**
+ * User Glossaries
+ *
+ * Term lists maintained by the user per industry and language pair,
+ * stored in the local data directory. At translation time they are merged
+ * over the industry's built-in glossary, so a user entry overrides a
+ * built-in one for the same source term.
+ */
+
+import { readJsonFile, writeJsonFile } from "./data-store";
+
+const GLOSSARY_FILE = "glossaries.json";
+
+interface GlossaryDocument {
+  version: 1;
+  /** "industryId|sourceLang|targetLang" -> source term -> target term */
+  glossaries: Record<string, Record<string, string>>;
+}
+
+function glossaryKey(industryId: string, sourceLang: string, targetLang: string): string {
+  return `${industryId}|${sourceLang}|${targetLang}`;
+}
+
+async function readDocument(): Promise<GlossaryDocument> {
+  return readJsonFile<GlossaryDocument>(GLOSSARY_FILE, { version: 1, glossaries: {} });
+}
+
+/**
+ * Returns the user's terms for an industry and language pair (empty if none).
+ */
+export async function getUserGlossary(
+  industryId: string,
+  sourceLang: string,
+  targetLang: string
+): Promise<Record<string, string>> {
+  const doc = await readDocument();
+  return doc.glossaries[glossaryKey(industryId, sourceLang, targetLang)] ?? {};
+}
+
+/**
+ * Replaces the user's terms for an industry and language pair. Blank
+ * entries are dropped; an empty list removes the glossary.
+ */
+export async function saveUserGlossary(
+  industryId: string,
+  sourceLang: string,
+  targetLang: string,
+  terms: Record<string, string>
+): Promise<Record<string, string>> {
+  const cleaned: Record<string, string> = {};
+  for (const [source, target] of Object.entries(terms)) {
+    if (source.trim() && target.trim()) cleaned[source.trim()] = target.trim();
+  }
+
+  const doc = await readDocument();
+  const key = glossaryKey(industryId, sourceLang, targetLang);
+  if (Object.keys(cleaned).length > 0) doc.glossaries[key] = cleaned;
+  else delete doc.glossaries[key];
+  await writeJsonFile(GLOSSARY_FILE, doc);
+
+  return cleaned;
+}
@@ -0,0 +1,151 @@
+/**
+ * WooCommerce Export Parser
+ *
+ * Reads the WordPress eXtended RSS (WXR) files written by WordPress's
+ * Tools > Export for products. Each `<item>` with a `wp:post_type` of
+ * product or product_variation is a product: its title, content, excerpt,
+ * category/tag/attribute assignments and Yoast or Rank Math SEO meta can
+ * be translated. The channel's `<wp:term>` entries for the same
+ * taxonomies are translated too, so term names stay consistent with the
+ * products that use them. Posts, pages and attachments are left alone.
+ */
+
+import { validateXml } from "./xml-tokenizer";
+import { readXmlRecords, writeXmlItems, type XmlLeaf, type XmlRecord } from "./xml-records";
+import {
+  createItemCollector,
+  defaultFields,
+  type ExtractOptions,
+  type FeedAdapter,
+  type FeedField,
+  type TranslatableField,
+  type TranslatableItem,
+} from "./feed-adapter";
+
+export const WOOCOMMERCE_FIELDS: FeedField[] = [
+  { id: "title", label: "Product Title", group: "Core", defaultOn: true },
+  { id: "description", label: "Description", group: "Core", defaultOn: true },
+  { id: "short_description", label: "Short Description", group: "Core", defaultOn: true },
+  { id: "meta_title", label: "SEO Title", group: "SEO", defaultOn: false },
+  { id: "meta_description", label: "SEO Description", group: "SEO", defaultOn: true },
+  { id: "category", label: "Product Categories", group: "Taxonomy", defaultOn: true },
+  { id: "tags", label: "Product Tags", group: "Taxonomy", defaultOn: false },
+  { id: "attribute_value", label: "Attribute Terms", group: "Taxonomy", defaultOn: true },
+];
+
+const RECORD_NAMES = new Set(["item", "wp:term"]);
+
+const PRODUCT_POST_TYPES = new Set(["product", "product_variation"]);
+
+const POST_FIELDS: Record<string, TranslatableField> = {
+  title: "title",
+  "content:encoded": "description",
+  "excerpt:encoded": "short_description",
+};
+
+/** SEO plugin meta keys (Yoast, Rank Math) */
+const META_FIELDS: Record<string, TranslatableField> = {
+  _yoast_wpseo_title: "meta_title",
+  _yoast_wpseo_metadesc: "meta_description",
+  rank_math_title: "meta_title",
+  rank_math_description: "meta_description",
+};
+
+const WORDPRESS_NAMESPACE = /xmlns:wp\s*=\s*["']http:\/\/wordpress\.org\/export\//;
+
+/** Product categories, product tags and global attributes (`pa_color` etc.) */
+function taxonomyField(taxonomy: string): TranslatableField | undefined {
+  if (taxonomy === "product_cat") return "category";
+  if (taxonomy === "product_tag") return "tags";
+  return taxonomy.startsWith("pa_") ? "attribute_value" : undefined;
+}
+
+const childText = (leaves: XmlLeaf[], name: string) =>
+  leaves.find((l) => !l.parentPath && l.name === name)?.text.trim() ?? "";
+
+const isProduct = (record: XmlRecord) =>
+  record.name === "item" && PRODUCT_POST_TYPES.has(childText(record.leaves, "wp:post_type"));
+
+function productId(record: XmlRecord, index: number): string {
+  return childText(record.leaves, "wp:post_id") || `unknown-${index}`;
+}
+
+/**
+ * Extracts the selected fields of every product and product term. Product
+ * paths look like `product[42].category[1]`; term paths like
+ * `term[product_cat:shoes].wp:term_name`.
+ * Throws XmlParseError if the export is not well-formed.
+ */
+export function extractWooCommerce(
+  xml: string,
+  sourceLang: string,
+  selectedFields?: Set<TranslatableField>,
+  options: ExtractOptions = {}
+): TranslatableItem[] {
+  validateXml(xml);
+  const collector = createItemCollector(
+    sourceLang,
+    selectedFields || defaultFields(WOOCOMMERCE_FIELDS),
+    options
+  );
+  let productIndex = 0;
+
+  for (const record of readXmlRecords(xml, RECORD_NAMES)) {
+    const { leaves } = record;
+
+    if (record.name === "wp:term") {
+      const taxonomy = childText(leaves, "wp:term_taxonomy");
+      const slug = childText(leaves, "wp:term_slug");
+      const field = taxonomyField(taxonomy);
+      const name = leaves.find((l) => !l.parentPath && l.name === "wp:term_name");
+      if (field && name) {
+        collector.add("wp:term_name", name.text, field, name.span, name.encoding);
+        const key = `${taxonomy}:${slug}`;
+        collector.endProduct(`term:${key}`, name.text, `term[${key}]`);
+      }
+      continue;
+    }
+
+    if (!isProduct(record)) continue;
+
+    for (const leaf of leaves) {
+      if (!leaf.parentPath) {
+        const field =
+          leaf.name === "category"
+            ? taxonomyField(leaf.attributes.find((a) => a.name === "domain")?.value ?? "")
+            : POST_FIELDS[leaf.name];
+        const path = leaf.name === "category" ? `category[${leaf.index}]` : leaf.name;
+        if (field) collector.add(path, leaf.text, field, leaf.span, leaf.encoding);
+      } else if (leaf.name === "wp:meta_value") {
+        const key = leaves.find((l) => l.parentPath === leaf.parentPath && l.name === "wp:meta_key");
+        const field = key && META_FIELDS[key.text.trim()];
+        if (field) {
+          collector.add(`${leaf.parentPath}.wp:meta_value`, leaf.text, field, leaf.span, leaf.encoding);
+        }
+      }
+    }
+    collector.endProduct(productId(record, productIndex), childText(leaves, "title") || "Untitled");
+    productIndex++;
+  }
+
+  return collector.items;
+}
+
+export const woocommerceAdapter: FeedAdapter = {
+  id: "woocommerce",
+  name: "WooCommerce export (WXR)",
+  fileExtension: "xml",
+  mimeType: "application/xml",
+  fields: WOOCOMMERCE_FIELDS,
+  detect: (content) => WORDPRESS_NAMESPACE.test(content.slice(0, 4096)),
+  validate: validateXml,
+  extract: extractWooCommerce,
+  applyTranslations: (xml, items, translations) =>
+    writeXmlItems(xml, items, (item) => translations.get(item.text)),
+  applyItemTranslations: (xml, items, translationsByPath) =>
+    writeXmlItems(xml, items, (item) => translationsByPath.get(item.path)),
+  listProductIds: (xml) =>
+    readXmlRecords(xml, RECORD_NAMES)
+      .filter(isProduct)
+      .map((record, index) => productId(record, index)),
+};
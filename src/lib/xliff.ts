@@ -0,0 +1,262 @@
+/**
+ * XLIFF Export & Import
+ *
+ * Round trip with human translators working in CAT tools. Export writes
+ * the deduplicated texts of a feed as XLIFF 1.2 or 2.0 units, with where
+ * each text occurs (product id, title and field) as notes and, optionally,
+ * the machine translations as targets to post-edit. Import reads the
+ * edited file back into the original text -> translation map that the
+ * feed adapters write into the feed.
+ *
+ * Texts are exported as plain text: HTML inside a description is escaped,
+ * so CAT tools show the markup as text and translators keep it as it is.
+ */
+
+import { checkStructure } from "./structure-check";
+import {
+  decodeEntities,
+  escapeAttribute,
+  escapeText,
+  tokenizeXml,
+  validateXml,
+} from "./xml-tokenizer";
+
+export type XliffVersion = "1.2" | "2.0";
+
+/** One occurrence of a text in the feed, with its translation if any */
+export interface XliffItem {
+  productId: string;
+  productTitle: string;
+  field: string;
+  text: string;
+  translation?: string | null;
+}
+
+export interface XliffExportOptions {
+  version: XliffVersion;
+  sourceLang: string;
+  targetLang: string;
+  /** The feed's file name, recorded as the file's `original` */
+  original: string;
+  /** Formats a field id for the notes */
+  fieldLabel?: (field: string) => string;
+}
+
+export interface XliffImport {
+  sourceLang: string | null;
+  targetLang: string | null;
+  /** Source text -> translation, for units with a non-empty target */
+  translations: Map<string, string>;
+  /** Units read, with or without a target */
+  unitCount: number;
+  /** Units that could not be used or whose translation looks broken */
+  problems: string[];
+}
+
+/** Occurrences listed as notes per unit; the rest are counted */
+const MAX_NOTED_OCCURRENCES = 5;
+
+const XLIFF_12_NAMESPACE = "urn:oasis:names:tc:xliff:document:1.2";
+const XLIFF_20_NAMESPACE = "urn:oasis:names:tc:xliff:document:2.0";
+
+interface Unit {
+  source: string;
+  target: string | null;
+  notes: string[];
+}
+
+/** Groups occurrences by text, in order of first occurrence */
+function buildUnits(items: XliffItem[], fieldLabel: (field: string) => string): Unit[] {
+  const units = new Map<string, { target: string | null; occurrences: XliffItem[] }>();
+  for (const item of items) {
+    const unit = units.get(item.text);
+    if (unit) {
+      unit.occurrences.push(item);
+      unit.target ??= item.translation ?? null;
+    } else {
+      units.set(item.text, { target: item.translation ?? null, occurrences: [item] });
+    }
+  }
+
+  return [...units.entries()].map(([source, { target, occurrences }]) => {
+    const notes = occurrences
+      .slice(0, MAX_NOTED_OCCURRENCES)
+      .map((o) => `Product ${o.productId} "${o.productTitle}" - ${fieldLabel(o.field)}`);
+    if (occurrences.length > MAX_NOTED_OCCURRENCES) {
+      notes.push(`Used ${occurrences.length} times in the feed`);
+    }
+    return { source, target, notes };
+  });
+}
+
+/**
+ * Writes one unit per distinct text. Targets are included for texts that
+ * have a translation, marked for review.
+ */
+export function exportXliff(items: XliffItem[], options: XliffExportOptions): string {
+  const { version, sourceLang, targetLang, original, fieldLabel = (field) => field } = options;
+  const units = buildUnits(items, fieldLabel);
+  const attr = (value: string) => escapeAttribute(value, '"');
+
+  if (version === "1.2") {
+    const body = units
+      .map((unit, i) => {
+        const target =
+          unit.target !== null
+            ? `\n        <target state="needs-review-translation">${escapeText(unit.target)}</target>`
+            : "";
+        const notes = unit.notes.map((note) => `\n        <note>${escapeText(note)}</note>`).join("");
+        return `      <trans-unit id="u${i + 1}" xml:space="preserve">
+        <source>${escapeText(unit.source)}</source>${target}${notes}
+      </trans-unit>`;
+      })
+      .join("\n");
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="${XLIFF_12_NAMESPACE}">
+  <file original="${attr(original)}" source-language="${attr(sourceLang)}" target-language="${attr(targetLang)}" datatype="plaintext">
+    <body>
+${body}
+    </body>
+  </file>
+</xliff>
+`;
+  }
+
+  const body = units
+    .map((unit, i) => {
+      const notes = unit.notes
+        .map((note) => `\n        <note category="location">${escapeText(note)}</note>`)
+        .join("");
+      const target =
+        unit.target !== null ? `\n        <target>${escapeText(unit.target)}</target>` : "";
+      return `    <unit id="u${i + 1}">
+      <notes>${notes}
+      </notes>
+      <segment state="${unit.target !== null ? "translated" : "initial"}">
+        <source xml:space="preserve">${escapeText(unit.source)}</source>${target}
+      </segment>
+    </unit>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="2.0" xmlns="${XLIFF_20_NAMESPACE}" srcLang="${attr(sourceLang)}" trgLang="${attr(targetLang)}">
+  <file id="f1" original="${attr(original)}">
+${body}
+  </file>
+</xliff>
+`;
+}
+
+/** Elements that only mark up segments and are read through */
+const TRANSPARENT_ELEMENTS = new Set(["mrk", "segment", "ignorable"]);
+
+/** Translation suggestions (1.2 alt-trans, 2.0 matches module), not the unit's text */
+const SKIPPED_ELEMENTS = new Set(["alt-trans", "mtc:matches"]);
+
+/**
+ * Reads an XLIFF 1.2 or 2.0 file. Units split into several segments by a
+ * CAT tool are joined again. Units with inline elements (placeholders a
+ * CAT tool added for markup) cannot be matched to feed texts and are
+ * reported instead. Throws XmlParseError for malformed files.
+ */
+export function importXliff(text: string): XliffImport {
+  validateXml(text);
+
+  const result: XliffImport = {
+    sourceLang: null,
+    targetLang: null,
+    translations: new Map(),
+    unitCount: 0,
+    problems: [],
+  };
+
+  let unit: { id: string; source: string; target: string | null; inline: boolean } | null = null;
+  // "source" or "target" while inside one
+  let part: "source" | "target" | null = null;
+  // The target of a 2.0 <ignorable> defaults to its source
+  let ignorableSource: string | null = null;
+  let ignorableHasTarget = false;
+  // Depth inside skipped elements
+  let skipping = 0;
+
+  const append = (value: string) => {
+    if (!unit || !part) return;
+    if (part === "source") {
+      unit.source += value;
+      if (ignorableSource !== null) ignorableSource += value;
+    } else {
+      unit.target = (unit.target ?? "") + value;
+    }
+  };
+
+  for (const token of tokenizeXml(text)) {
+    if (token.type === "open" && SKIPPED_ELEMENTS.has(token.name) && !token.selfClosing) {
+      skipping++;
+      continue;
+    }
+    if (skipping > 0) {
+      if (token.type === "close" && SKIPPED_ELEMENTS.has(token.name)) skipping--;
+      continue;
+    }
+
+    switch (token.type) {
+      case "open": {
+        const attr = (name: string) => token.attributes.find((a) => a.name === name)?.value ?? null;
+        if (token.name === "xliff") {
+          result.sourceLang = attr("srcLang");
+          result.targetLang = attr("trgLang");
+        } else if (token.name === "file" && attr("source-language")) {
+          result.sourceLang = attr("source-language");
+          result.targetLang = attr("target-language");
+        } else if (token.name === "trans-unit" || token.name === "unit") {
+          unit = {
+            id: attr("id") ?? String(result.unitCount + 1),
+            source: "",
+            target: null,
+            inline: false,
+          };
+        } else if (unit && (token.name === "source" || token.name === "target") && !part) {
+          if (!token.selfClosing) part = token.name;
+          if (token.name === "target" && ignorableSource !== null) ignorableHasTarget = true;
+        } else if (unit && token.name === "ignorable") {
+          ignorableSource = "";
+          ignorableHasTarget = false;
+        } else if (unit && part && !TRANSPARENT_ELEMENTS.has(token.name)) {
+          unit.inline = true;
+        }
+        break;
+      }
+      case "text":
+        append(decodeEntities(token.raw));
+        break;
+      case "cdata":
+        append(token.value);
+        break;
+      case "close":
+        if (token.name === part) {
+          part = null;
+        } else if (token.name === "ignorable" && unit) {
+          if (!ignorableHasTarget && unit.target !== null) unit.target += ignorableSource ?? "";
+          ignorableSource = null;
+        } else if ((token.name === "trans-unit" || token.name === "unit") && unit) {
+          result.unitCount++;
+          const { id, source, target, inline } = unit;
+          unit = null;
+
+          if (inline) {
+            result.problems.push(`Unit ${id}: inline markup elements are not supported`);
+          } else if (target !== null && target.trim() !== "" && source.trim() !== "") {
+            if (result.translations.has(source)) break;
+            result.translations.set(source, target);
+            const problems = checkStructure(source, target);
+            if (problems.length > 0) result.problems.push(`Unit ${id}: ${problems.join("; ")}`);
+          }
+        }
+        break;
+    }
+  }
+
+  return result;
+}
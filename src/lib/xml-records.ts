@@ -0,0 +1,174 @@
+/**
+ * XML Record Reader
+ *
+ * Reads the flat, record-per-product XML formats (Google Merchant RSS and
+ * Atom, WooCommerce WXR): each record element becomes a list of its text
+ * leaves, with their offsets, so the adapters only have to map element
+ * names to fields.
+ */
+
+import {
+  decodeEntities,
+  escapeAttribute,
+  escapeText,
+  tokenizeXml,
+  wrapCdata,
+  type XmlAttribute,
+} from "./xml-tokenizer";
+import { writeSpans, type TextEncoding, type TextSpan, type TranslatableItem } from "./feed-adapter";
+
+export interface XmlLeaf {
+  /** Qualified element name, e.g. `g:title` */
+  name: string;
+  /** Position among same-named siblings */
+  index: number;
+  /**
+   * Positional path of the parent within the record, e.g.
+   * `g:product_detail[1]`; empty for direct children of the record
+   */
+  parentPath: string;
+  attributes: XmlAttribute[];
+  /** Decoded text, CDATA unwrapped */
+  text: string;
+  span: TextSpan;
+  encoding: TextEncoding;
+}
+
+export interface XmlRecord {
+  name: string;
+  attributes: XmlAttribute[];
+  /** Elements without child elements, in document order */
+  leaves: XmlLeaf[];
+}
+
+interface Frame {
+  name: string;
+  attributes: XmlAttribute[];
+  contentStart: number;
+  text: string;
+  hasCdata: boolean;
+  hasChildren: boolean;
+  /** Same-named child counts, for positional indexes */
+  childCounts: Map<string, number>;
+  index: number;
+  /** Positional path within the record; empty outside records */
+  path: string;
+}
+
+/**
+ * Returns every element named in `recordNames` (not nested in another
+ * record) with its leaves. Expects well-formed XML (see validateXml).
+ */
+export function readXmlRecords(xml: string, recordNames: Set<string>): XmlRecord[] {
+  const records: XmlRecord[] = [];
+  const stack: Frame[] = [];
+  let record: XmlRecord | null = null;
+  let recordDepth = -1;
+
+  for (const token of tokenizeXml(xml)) {
+    const top = stack[stack.length - 1];
+
+    switch (token.type) {
+      case "open": {
+        if (top) top.hasChildren = true;
+        if (!token.selfClosing && !record && recordNames.has(token.name)) {
+          record = { name: token.name, attributes: token.attributes, leaves: [] };
+          recordDepth = stack.length;
+        }
+
+        const index = top?.childCounts.get(token.name) ?? 0;
+        top?.childCounts.set(token.name, index + 1);
+        if (token.selfClosing) break;
+
+        const inRecord = record !== null && stack.length > recordDepth;
+        stack.push({
+          name: token.name,
+          attributes: token.attributes,
+          contentStart: token.end,
+          text: "",
+          hasCdata: false,
+          hasChildren: false,
+          childCounts: new Map(),
+          index,
+          // Children of the record start the path
+          path: !inRecord
+            ? ""
+            : top!.path
+            ? `${top!.path}.${token.name}[${index}]`
+            : `${token.name}[${index}]`,
+        });
+        break;
+      }
+
+      case "text":
+        if (top) top.text += decodeEntities(token.raw);
+        break;
+
+      case "cdata":
+        if (top) {
+          top.text += token.value;
+          top.hasCdata = true;
+        }
+        break;
+
+      case "close": {
+        const frame = stack.pop()!;
+        if (!record) break;
+
+        if (stack.length === recordDepth) {
+          records.push(record);
+          record = null;
+          recordDepth = -1;
+        } else if (!frame.hasChildren) {
+          const parent = stack[stack.length - 1];
+          record.leaves.push({
+            name: frame.name,
+            index: frame.index,
+            parentPath: parent.path,
+            attributes: frame.attributes,
+            text: frame.text,
+            span: { start: frame.contentStart, end: token.start },
+            encoding: frame.hasCdata ? "cdata" : "text",
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Encodes a translation the same way the original XML value was stored.
+ * Undeclared entities such as `&nbsp;` were read as literal text and are
+ * written back as entities.
+ */
+function encodeXmlValue(item: TranslatableItem, translated: string, xml: string): string {
+  switch (item.encoding) {
+    case "cdata":
+      return wrapCdata(translated);
+    case "attribute":
+      return escapeAttribute(translated, xml[item.span.start - 1] === "'" ? "'" : '"', true);
+    case "raw":
+      // Markup is kept as translated; only stray ampersands are escaped
+      return translated.replace(/&(?!#\d+;|#x[0-9a-fA-F]+;|[A-Za-z][\w.-]*;)/g, "&amp;");
+    default:
+      return escapeText(translated, true);
+  }
+}
+
+/**
+ * Writes translations back into an XML feed at the items' spans, encoded
+ * like the original values; everything else (unselected fields, SKUs,
+ * URLs, markup) is copied through byte-for-byte.
+ */
+export function writeXmlItems(
+  xml: string,
+  items: TranslatableItem[],
+  translationFor: (item: TranslatableItem) => string | undefined
+): string {
+  return writeSpans(xml, items, translationFor, (item, translated) =>
+    encodeXmlValue(item, translated, xml)
+  );
+}
@@ -0,0 +1,273 @@
+/**
+ * Streaming XML Tokenizer
+ *
+ * Walks raw XML and yields tokens together with their character offsets,
+ * so callers can read decoded values and later write back into the exact
+ * same locations without re-serializing the document. Well-formedness is
+ * checked up front with fast-xml-parser's validator; errors from either
+ * pass are reported as XmlParseError with a line and column.
+ */
+
+import { XMLValidator } from "fast-xml-parser";
+
+export class XmlParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = "XmlParseError";
+  }
+}
+
+export interface XmlAttribute {
+  name: string;
+  /** Decoded attribute value */
+  value: string;
+  /** Offsets of the raw value, excluding the quotes */
+  valueStart: number;
+  valueEnd: number;
+}
+
+export type XmlToken =
+  | {
+      type: "open";
+      name: string;
+      attributes: XmlAttribute[];
+      selfClosing: boolean;
+      start: number;
+      end: number;
+    }
+  | { type: "close"; name: string; start: number; end: number }
+  /** Character data, still entity-encoded in `raw` */
+  | { type: "text"; raw: string; start: number; end: number }
+  /** A CDATA section; `value` is the content between the markers */
+  | { type: "cdata"; value: string; start: number; end: number }
+  | { type: "comment" | "instruction" | "doctype"; start: number; end: number };
+
+/**
+ * Converts a character offset into a 1-based line and column.
+ */
+export function positionAt(xml: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < xml.length; i++) {
+    if (xml.charCodeAt(i) === 10) {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Checks that the document is well-formed XML.
+ * Throws XmlParseError pointing at the first problem.
+ */
+export function validateXml(xml: string): void {
+  const result = XMLValidator.validate(xml);
+  if (result !== true) {
+    throw new XmlParseError(result.err.msg, result.err.line, result.err.col);
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decodes the predefined XML entities and numeric character references.
+ * Unknown named entities are left as they are.
+ */
+export function decodeEntities(raw: string): string {
+  if (!raw.includes("&")) return raw;
+  return raw.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z][\w.-]*);/g, (entity, body: string) => {
+    if (body[0] === "#") {
+      const code =
+        body[1] === "x" || body[1] === "X"
+          ? parseInt(body.slice(2), 16)
+          : parseInt(body.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[body] ?? entity;
+  });
+}
+
+/** An ampersand that does not start an entity outside the predefined ones */
+const AMPERSAND_OUTSIDE_UNKNOWN_ENTITY = /&(?!(?!(?:lt|gt|amp|quot|apos);)[A-Za-z][\w.-]*;)/g;
+
+/**
+ * Escapes text for use as XML character data. With `keepUnknownEntities`,
+ * references to undeclared entities (e.g. `&nbsp;`, which decodeEntities
+ * leaves as they are) are written back unescaped, so values read from a
+ * feed round-trip unchanged.
+ */
+export function escapeText(text: string, keepUnknownEntities = false): string {
+  return text
+    .replace(keepUnknownEntities ? AMPERSAND_OUTSIDE_UNKNOWN_ENTITY : /&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Escapes text for use inside an attribute value delimited by `quote`. */
+export function escapeAttribute(
+  text: string,
+  quote: '"' | "'",
+  keepUnknownEntities = false
+): string {
+  const escaped = escapeText(text, keepUnknownEntities);
+  return quote === '"' ? escaped.replace(/"/g, "&quot;") : escaped.replace(/'/g, "&apos;");
+}
+
+/** Wraps text in a CDATA section, splitting any embedded "]]>" terminator. */
+export function wrapCdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+const NAME_CHAR = /[^\s/>="'<]/;
+
+/**
+ * Yields the tokens of an XML document in order.
+ * Expects well-formed input (see validateXml); anything it cannot
+ * make sense of is still reported as an XmlParseError.
+ */
+export function* tokenizeXml(xml: string): Generator<XmlToken> {
+  const fail = (message: string, offset: number): never => {
+    const { line, column } = positionAt(xml, offset);
+    throw new XmlParseError(message, line, column);
+  };
+
+  const openElements: { name: string; start: number }[] = [];
+  let pos = 0;
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf("<", pos);
+
+    if (lt === -1 || lt > pos) {
+      const end = lt === -1 ? xml.length : lt;
+      yield { type: "text", raw: xml.slice(pos, end), start: pos, end };
+      pos = end;
+      continue;
+    }
+
+    if (xml.startsWith("<![CDATA[", pos)) {
+      const close = xml.indexOf("]]>", pos + 9);
+      if (close === -1) fail("Unterminated CDATA section", pos);
+      yield { type: "cdata", value: xml.slice(pos + 9, close), start: pos, end: close + 3 };
+      pos = close + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<!--", pos)) {
+      const close = xml.indexOf("-->", pos + 4);
+      if (close === -1) fail("Unterminated comment", pos);
+      yield { type: "comment", start: pos, end: close + 3 };
+      pos = close + 3;
+      continue;
+    }
+
+    if (xml.startsWith("<?", pos)) {
+      const close = xml.indexOf("?>", pos + 2);
+      if (close === -1) fail("Unterminated processing instruction", pos);
+      yield { type: "instruction", start: pos, end: close + 2 };
+      pos = close + 2;
+      continue;
+    }
+
+    if (xml.startsWith("<!", pos)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      let i = pos + 2;
+      let depth = 0;
+      for (; i < xml.length; i++) {
+        const ch = xml[i];
+        if (ch === "[") depth++;
+        else if (ch === "]") depth--;
+        else if (ch === ">" && depth <= 0) break;
+      }
+      if (i >= xml.length) fail("Unterminated declaration", pos);
+      yield { type: "doctype", start: pos, end: i + 1 };
+      pos = i + 1;
+      continue;
+    }
+
+    if (xml[pos + 1] === "/") {
+      const close = xml.indexOf(">", pos);
+      if (close === -1) fail("Unterminated closing tag", pos);
+      const name = xml.slice(pos + 2, close).trim();
+      const open = openElements.pop();
+      if (!open) fail(`Unexpected closing tag </${name}>`, pos);
+      if (open!.name !== name) {
+        const opened = positionAt(xml, open!.start);
+        fail(
+          `Expected closing tag </${open!.name}> (opened at line ${opened.line}, column ${opened.column}) but found </${name}>`,
+          pos
+        );
+      }
+      yield { type: "close", name, start: pos, end: close + 1 };
+      pos = close + 1;
+      continue;
+    }
+
+    // Start tag
+    let i = pos + 1;
+    while (i < xml.length && NAME_CHAR.test(xml[i])) i++;
+    const name = xml.slice(pos + 1, i);
+    if (!name) fail("Invalid tag name", pos);
+
+    const attributes: XmlAttribute[] = [];
+    let selfClosing = false;
+
+    for (;;) {
+      while (i < xml.length && /\s/.test(xml[i])) i++;
+      if (i >= xml.length) fail(`Unterminated tag <${name}>`, pos);
+
+      if (xml[i] === ">") {
+        i++;
+        break;
+      }
+      if (xml[i] === "/" && xml[i + 1] === ">") {
+        selfClosing = true;
+        i += 2;
+        break;
+      }
+
+      const nameStart = i;
+      while (i < xml.length && NAME_CHAR.test(xml[i])) i++;
+      const attrName = xml.slice(nameStart, i);
+      if (!attrName) fail(`Unexpected character in tag <${name}>`, i);
+
+      while (i < xml.length && /\s/.test(xml[i])) i++;
+      if (xml[i] !== "=") fail(`Attribute "${attrName}" has no value`, i);
+      i++;
+      while (i < xml.length && /\s/.test(xml[i])) i++;
+
+      const quote = xml[i];
+      if (quote !== '"' && quote !== "'") fail(`Attribute "${attrName}" value must be quoted`, i);
+      const valueStart = i + 1;
+      const valueEnd = xml.indexOf(quote, valueStart);
+      if (valueEnd === -1) fail(`Unterminated value for attribute "${attrName}"`, i);
+
+      attributes.push({
+        name: attrName,
+        value: decodeEntities(xml.slice(valueStart, valueEnd)),
+        valueStart,
+        valueEnd,
+      });
+      i = valueEnd + 1;
+    }
+
+    if (!selfClosing) openElements.push({ name, start: pos });
+    yield { type: "open", name, attributes, selfClosing, start: pos, end: i };
+    pos = i;
+  }
+
+  if (openElements.length > 0) {
+    const open = openElements[openElements.length - 1];
+    fail(`Unclosed tag <${open.name}>`, open.start);
+  }
+}